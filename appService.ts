@@ -2,66 +2,186 @@ import * as pulumi from "@pulumi/pulumi";
 import * as kx from "@pulumi/kubernetesx";
 import * as k8s from "@pulumi/kubernetes";
 
+import { IngressController } from "./ingressController";
+import { checkVersionChange } from "./upgrade";
+import { VolumeBackup } from "./volumeBackup";
+import {
+    AutoscalingConfig,
+    BackupConfig,
+    ProbeConfig,
+    ProbesConfig,
+    ResourcesConfig,
+    RouteConfig,
+    TolerationConfig,
+} from "./config";
+
 export interface AppServiceArgs {
-    clusterId: pulumi.Output<string>;
+    /**
+     * The name of the Botpress instance the app service belongs to.
+     * It prefixes the names of all of the app service's resources so that
+     * several instances can be deployed into the same cluster.
+     */
+    instanceName: string;
+    /**
+     * The resource the app service was parented to before the app services
+     * were grouped into instances (the DOKS cluster). When set, the app
+     * service adopts the resources a stack deployed back then has: they're
+     * aliased to their former names and parents instead of being replaced.
+     * Only the app services of one instance can adopt them.
+     */
+    legacyParent?: pulumi.Resource;
+    /**
+     * The ID of the cloud-managed cluster the app service is deployed to.
+     * Not set when deploying onto an existing cluster via a kubeconfig.
+     */
+    clusterId?: pulumi.Output<string>;
     namespace: pulumi.Output<string>;
     numReplicas: number;
     /**
-     * The storage size of the PVC.
+     * The storage size of the PVC. If not set, no PVC is created.
      * See limitations:
      * https://www.digitalocean.com/docs/kubernetes/resources/volume-features/
      */
-    storageSize: string;
+    storageSize?: string;
+    /**
+     * The version (image tag) of the `botpress/server` image.
+     */
+    botpressServerVersion: string;
+    /**
+     * The `botpressServerVersion` of the last update of the stack, if any.
+     * The app service refuses to deploy an older version, unless
+     * `allowDowngrade` is set.
+     */
+    deployedBotpressServerVersion?: pulumi.Input<string | undefined>;
+    allowDowngrade?: boolean;
+    /**
+     * Overrides of the app service's default liveness, readiness and
+     * startup probes.
+     */
+    probes?: ProbesConfig;
+    /**
+     * Overrides of the app service's default CPU/memory requests and limits.
+     */
+    resources?: ResourcesConfig;
+    /**
+     * When set, a HorizontalPodAutoscaler manages the number of replicas
+     * instead of `numReplicas`.
+     */
+    autoscaling?: AutoscalingConfig;
+    /**
+     * When enabled, the PVC is backed up to an S3-compatible bucket.
+     */
+    backup?: BackupConfig;
+    /**
+     * The labels of the nodes the pods run on, e.g. the ones of a node pool.
+     */
+    nodeSelector?: Record<string, string>;
+    /**
+     * The taints of the nodes the pods tolerate.
+     */
+    tolerations?: TolerationConfig[];
+    /**
+     * The affinity of the pods. Unless it sets a pod anti-affinity, the
+     * replicas prefer to run on different nodes.
+     */
+    affinity?: k8s.types.input.core.v1.Affinity;
+}
+
+/**
+ * Returns the URN an app service had before the app services were grouped
+ * into instances, when it was parented to `legacyParent` and named after the
+ * service alone, e.g. `lang-server`.
+ */
+export function getLegacyAppServiceUrn(
+    serviceName: string,
+    legacyParent: pulumi.Resource
+): pulumi.Output<string> {
+    return pulumi.createUrn(serviceName, "app-service", legacyParent);
+}
+
+/**
+ * The health settings of an app service's container.
+ * Each app service provides its own defaults.
+ */
+export interface ContainerHealthDefaults {
+    probes: ProbesConfig;
+    resources: ResourcesConfig;
+}
+
+/**
+ * The routes from the ingress controller to an app service, along with the
+ * settings shared by all of them.
+ */
+export interface RouteTable {
+    ingressController: IngressController;
+    /**
+     * The port of the app service's `Service` the routes go to.
+     */
+    port: number;
+    /**
+     * The host the routes match, unless they set their own. The routes
+     * match any host if not set.
+     */
+    host?: string;
+    /**
+     * The `Secret` of the certificate of `host`, when it's served over
+     * HTTPS. The routes with their own host get a certificate from the
+     * ingress controller's ACME `ClusterIssuer`.
+     */
+    tlsSecretName?: string;
+    /**
+     * The cookie of the routes with sticky sessions. Defaults to
+     * `<instance>-<app service>-route`.
+     */
+    sessionCookieName?: string;
+    routes: RouteConfig[];
+    /**
+     * The names of the routes the app service adds by itself rather than
+     * the config, which backends that ignore some of the route settings
+     * don't warn about.
+     */
+    defaultRoutes?: string[];
 }
 
 /**
  * AppService represents a `Deployment` resource which is exposed as a
  * `Service`. It also creates a PersistentVolumeClaim for use by the
- * service.
+ * service, if the service needs storage.
  *
- * Since services typically need an ingress controller to accept traffic
- * from the outside (internet), an nginx-based ingress controller is
- * deployed using Helm v2. Underneath, the nginx-ingress controller
- * creates the relevant `Service` of type `LoadBalancer`.
- *
- * By deploying an ingress controller, it also allows each app service
- * to configure it with `Ingress` resources.
+ * App services that accept traffic from the outside (internet) add their
+ * routes to the shared `IngressController`.
  */
 export class AppService extends pulumi.ComponentResource {
     private name: string;
     private appServiceArgs: AppServiceArgs;
-    // The NGINX ingress controller version.
-    private ingressControllerVersion: string;
-
-    private static ingressControllerChart: k8s.helm.v3.Chart | undefined;
-    public static appSvcsNamespace: k8s.core.v1.Namespace | undefined;
-    public static defaultIngressClass:
-        | k8s.networking.v1.IngressClass
-        | undefined;
 
     protected botpressServerVersion: string;
     protected pvc: kx.PersistentVolumeClaim | undefined;
     protected appDeployment: kx.Deployment | undefined;
     protected service: k8s.core.v1.Service | undefined;
+    protected envSecret: kx.Secret | undefined;
+    private backup: VolumeBackup | undefined;
 
     constructor(
         name: string,
         args: AppServiceArgs,
         opts?: pulumi.ComponentResourceOptions
     ) {
-        super("app-service", name, undefined, opts);
-        const config = new pulumi.Config();
-        this.ingressControllerVersion = config.require(
-            "ingressControllerVersion"
-        );
-        this.botpressServerVersion = config.require("botpressServerVersion");
+        super("app-service", `${args.instanceName}-${name}`, undefined, {
+            ...opts,
+            aliases: [
+                ...(opts?.aliases || []),
+                ...(args.legacyParent
+                    ? [{ name, parent: args.legacyParent }]
+                    : []),
+            ],
+        });
+        this.botpressServerVersion = args.botpressServerVersion;
         this.name = name;
         this.appServiceArgs = args;
 
-        this.createStorage();
-
-        if (!AppService.ingressControllerChart) {
-            this.createIngressController();
+        if (args.storageSize) {
+            this.createStorage(args.storageSize);
         }
     }
 
@@ -79,40 +199,324 @@ export class AppService extends pulumi.ComponentResource {
         return this.service;
     }
 
-    public static getIngressControllerIp(): pulumi.Output<string> {
-        if (!AppService.ingressControllerChart) {
-            throw new Error("Ingress controller is not yet initialized.");
+    /**
+     * Returns the labels that select the app service's pods.
+     */
+    getPodSelector(): pulumi.Output<Record<string, string>> {
+        return this.getDeployment().spec.selector.matchLabels;
+    }
+
+    /**
+     * Returns the name of a resource of the app service, prefixed with the
+     * instance name. It's used for both the Pulumi and the Kubernetes names.
+     */
+    protected getResourceName(name: string): string {
+        return `${this.appServiceArgs.instanceName}-${name}`;
+    }
+
+    /**
+     * Returns the aliases of a resource that was named `name` before the app
+     * services were grouped into instances, if the app service adopts the
+     * resources of a stack deployed back then (see `legacyParent`). The
+     * resource was parented to the app service, unless another former
+     * `parent` is given.
+     */
+    protected getLegacyAliases(
+        name: string,
+        parent?: pulumi.Input<string>
+    ): pulumi.Alias[] {
+        const legacyUrn = this.getLegacyUrn();
+        return legacyUrn ? [{ name, parent: parent ?? legacyUrn }] : [];
+    }
+
+    /**
+     * Returns the URN the app service had before the app services were
+     * grouped into instances, if it adopts the resources of a stack deployed
+     * back then (see `legacyParent`).
+     */
+    protected getLegacyUrn(): pulumi.Output<string> | undefined {
+        const legacyParent = this.appServiceArgs.legacyParent;
+        return legacyParent
+            ? getLegacyAppServiceUrn(this.name, legacyParent)
+            : undefined;
+    }
+
+    /**
+     * Returns the `botpress/server` image of the app service. It fails on a
+     * downgrade, so that the pods never start on data migrated by a newer
+     * version.
+     */
+    protected getBotpressImage(): pulumi.Output<string> {
+        return pulumi
+            .output(this.appServiceArgs.deployedBotpressServerVersion)
+            .apply((deployed) => {
+                checkVersionChange(
+                    deployed,
+                    this.botpressServerVersion,
+                    this.appServiceArgs.allowDowngrade ?? false
+                );
+                return `botpress/server:${this.botpressServerVersion}`;
+            });
+    }
+
+    /**
+     * Returns the rollout strategy of the `Deployment`. The pods mounting
+     * the `ReadWriteOnce` PVC can't run on two nodes (or share the data
+     * directory) at once, so the old pod is stopped before the new one
+     * starts.
+     */
+    protected getDeploymentStrategy():
+        | k8s.types.input.apps.v1.DeploymentStrategy
+        | undefined {
+        return this.pvc ? { type: "Recreate" } : undefined;
+    }
+
+    /**
+     * Returns the node selector and the tolerations of the app service's
+     * pods, which the pods that mount its volume must share.
+     */
+    protected getNodeSelection(): Pick<
+        k8s.types.input.core.v1.PodSpec,
+        "nodeSelector" | "tolerations"
+    > {
+        return {
+            nodeSelector: this.appServiceArgs.nodeSelector,
+            tolerations: this.appServiceArgs.tolerations,
+        };
+    }
+
+    /**
+     * Returns the scheduling settings of the app service's pods. Unless the
+     * affinity sets its own pod anti-affinity, the replicas prefer to run on
+     * different nodes, so that losing a node doesn't take them all down.
+     */
+    protected getScheduling(): Pick<
+        k8s.types.input.core.v1.PodSpec,
+        "nodeSelector" | "tolerations" | "affinity"
+    > {
+        const args = this.appServiceArgs;
+        let affinity = args.affinity;
+        const replicated =
+            args.numReplicas > 1 || (args.autoscaling?.maxReplicas ?? 1) > 1;
+        if (replicated && !affinity?.podAntiAffinity) {
+            affinity = {
+                ...affinity,
+                podAntiAffinity: {
+                    preferredDuringSchedulingIgnoredDuringExecution: [
+                        {
+                            weight: 100,
+                            podAffinityTerm: {
+                                labelSelector: {
+                                    matchLabels: this.getPodLabels(),
+                                },
+                                topologyKey: "kubernetes.io/hostname",
+                            },
+                        },
+                    ],
+                },
+            };
+        }
+        return { ...this.getNodeSelection(), affinity };
+    }
+
+    /**
+     * Returns the probes and resources of the app service's container, with
+     * the overrides from the args applied on top of the given defaults.
+     */
+    protected getContainerHealth(defaults: ContainerHealthDefaults) {
+        const overrides = this.appServiceArgs.probes || {};
+        const resources = this.appServiceArgs.resources || {};
+        return {
+            livenessProbe: this.buildProbe(
+                defaults.probes.liveness,
+                overrides.liveness
+            ),
+            readinessProbe: this.buildProbe(
+                defaults.probes.readiness,
+                overrides.readiness
+            ),
+            startupProbe: this.buildProbe(
+                defaults.probes.startup,
+                overrides.startup
+            ),
+            resources: {
+                requests: {
+                    ...defaults.resources.requests,
+                    ...resources.requests,
+                },
+                limits: {
+                    ...defaults.resources.limits,
+                    ...resources.limits,
+                },
+            },
+        };
+    }
+
+    private buildProbe(
+        defaults: ProbeConfig | undefined,
+        overrides: ProbeConfig | undefined
+    ): k8s.types.input.core.v1.Probe | undefined {
+        if (!defaults && !overrides) {
+            return undefined;
         }
 
-        const lbIp = AppService.ingressControllerChart
-            .getResource(
-                "v1/Service",
-                "app-svcs/nginx-nginx-ingress-controller"
-            )
-            .apply((v) =>
-                v
-                    ? v.status.loadBalancer.ingress[0].ip
-                    : pulumi.output("unknown-ip")
-            );
-        return lbIp;
+        const { path, port, ...timings } = { ...defaults, ...overrides };
+        if (!port) {
+            throw new Error(`The probes of ${this.name} require a port.`);
+        }
+        return {
+            ...timings,
+            ...(path ? { httpGet: { path, port } } : { tcpSocket: { port } }),
+        };
     }
 
-    protected getBaseMetadata(): pulumi.Input<k8s.types.input.meta.v1.ObjectMeta> {
+    /**
+     * The number of replicas the `Deployment` starts with. With autoscaling,
+     * the autoscaler takes over from there.
+     */
+    protected getReplicas(): number {
+        return (
+            this.appServiceArgs.autoscaling?.minReplicas ??
+            this.appServiceArgs.numReplicas
+        );
+    }
+
+    /**
+     * Route the traffic of the table's routes to the app service through
+     * the ingress controller, which creates the resources of its backend
+     * (e.g. an `Ingress` per route).
+     */
+    protected createRoutes(table: RouteTable): pulumi.Resource[] {
+        const names = new Set<string>();
+        for (const route of table.routes) {
+            if (names.has(route.name)) {
+                throw new Error(
+                    `The routes of ${this.name} have more than one ${route.name} route.`
+                );
+            }
+            names.add(route.name);
+        }
+
+        return table.ingressController.createRoutes(
+            {
+                ...table,
+                sessionCookieName:
+                    table.sessionCookieName ??
+                    this.getResourceName(`${this.name}-route`),
+            },
+            {
+                getResourceName: (name) => this.getResourceName(name),
+                namespace: this.appServiceArgs.namespace,
+                labels: this.getDeployment().metadata.labels,
+                serviceName: this.getService().metadata.name,
+                podSelector: this.getPodSelector(),
+                parent: this,
+                getLegacyAliases: (name) => this.getLegacyAliases(name),
+            }
+        );
+    }
+
+    /**
+     * Returns the labels of the app service's pods, besides the `app` label
+     * that selects them. The log collector labels the logs with the
+     * component.
+     */
+    protected getPodLabels(): Record<string, string> {
         return {
-            namespace: this.appServiceArgs.namespace,
+            "app.kubernetes.io/part-of": "botpress",
+            "app.kubernetes.io/instance": this.appServiceArgs.instanceName,
+            "app.kubernetes.io/component": this.name,
         };
     }
 
-    private createStorage() {
-        this.pvc = new kx.PersistentVolumeClaim(
-            `${this.name}-pvc-rw`,
+    /**
+     * Adds the pod labels (by default, the ones of the app service's pods)
+     * to the pod template of a workload spec built by `kx.PodBuilder`, which
+     * only sets the `app` label.
+     */
+    protected withPodLabels(
+        spec: pulumi.Output<k8s.types.input.apps.v1.DeploymentSpec>
+    ): pulumi.Output<k8s.types.input.apps.v1.DeploymentSpec>;
+    protected withPodLabels(
+        spec: pulumi.Output<k8s.types.input.apps.v1.StatefulSetSpec>
+    ): pulumi.Output<k8s.types.input.apps.v1.StatefulSetSpec>;
+    protected withPodLabels(
+        spec: pulumi.Output<k8s.types.input.batch.v1.JobSpec>,
+        labels: Record<string, string>
+    ): pulumi.Output<k8s.types.input.batch.v1.JobSpec>;
+    // `kx.PodBuilder` returns its specs as outputs of plain values.
+    protected withPodLabels(
+        spec: pulumi.Output<any>,
+        labels = this.getPodLabels()
+    ): pulumi.Output<any> {
+        return spec.apply((s) => ({
+            ...s,
+            template: {
+                ...s.template,
+                metadata: {
+                    ...s.template.metadata,
+                    labels: {
+                        ...s.template.metadata?.labels,
+                        ...labels,
+                    },
+                },
+            },
+        }));
+    }
+
+    /**
+     * Returns the options of the app service's workload, aliased to its
+     * `legacyName` when it adopts the workload of an older stack.
+     */
+    protected getDeploymentOptions(
+        legacyName?: string
+    ): pulumi.CustomResourceOptions {
+        return {
+            parent: this,
+            aliases: legacyName ? this.getLegacyAliases(legacyName) : undefined,
+            // Don't fight the autoscaler over the number of replicas.
+            ignoreChanges: this.appServiceArgs.autoscaling
+                ? ["spec.replicas"]
+                : undefined,
+        };
+    }
+
+    /**
+     * Create a HorizontalPodAutoscaler for the deployment, if autoscaling
+     * is enabled for the app service.
+     */
+    protected createAutoscaler() {
+        const autoscaling = this.appServiceArgs.autoscaling;
+        if (!autoscaling) {
+            return;
+        }
+
+        const deployment = this.getDeployment();
+        new k8s.autoscaling.v2.HorizontalPodAutoscaler(
+            this.getResourceName(`${this.name}-hpa`),
             {
                 metadata: this.getBaseMetadata(),
                 spec: {
-                    accessModes: ["ReadWriteOnce"],
-                    resources: {
-                        requests: { storage: this.appServiceArgs.storageSize },
+                    scaleTargetRef: {
+                        apiVersion: "apps/v1",
+                        kind: "Deployment",
+                        name: deployment.metadata.name,
                     },
+                    minReplicas: autoscaling.minReplicas,
+                    maxReplicas: autoscaling.maxReplicas,
+                    metrics: [
+                        {
+                            type: "Resource",
+                            resource: {
+                                name: "cpu",
+                                target: {
+                                    type: "Utilization",
+                                    averageUtilization:
+                                        autoscaling.targetCpuUtilizationPercentage,
+                                },
+                            },
+                        },
+                    ],
                 },
             },
             { parent: this }
@@ -120,90 +524,99 @@ export class AppService extends pulumi.ComponentResource {
     }
 
     /**
-     * Deploy the NGINX ingress controller using the Helm chart.
+     * Store the given sensitive env vars (credentials, license keys, etc.)
+     * in a `Secret` and return the container env vars that reference them.
+     * This keeps their values out of the pod spec and out of diffs.
      */
-    private createIngressController() {
-        AppService.appSvcsNamespace = new k8s.core.v1.Namespace(
-            "app-svcs",
+    protected createSecretEnv(
+        values: Record<string, pulumi.Input<string>>
+    ): k8s.types.input.core.v1.EnvVar[] {
+        if (this.envSecret) {
+            throw new Error(`The env Secret of ${this.name} already exists.`);
+        }
+
+        const stringData: Record<string, pulumi.Output<string>> = {};
+        for (const [key, value] of Object.entries(values)) {
+            stringData[key] = pulumi.secret(value);
+        }
+
+        const envSecret = new kx.Secret(
+            this.getResourceName(`${this.name}-env`),
             {
-                metadata: {
-                    name: "app-svcs",
-                },
+                metadata: this.getBaseMetadata(),
+                stringData,
             },
             { parent: this }
         );
+        this.envSecret = envSecret;
+
+        return Object.keys(values).map((key) => ({
+            name: key,
+            valueFrom: envSecret.asEnvValue(key),
+        }));
+    }
 
-        // The ingress class links all ingress objects to a particular ingress controller.
-        // It also serves as a way to set default parmaters on ingress objects.
-        // However, the nginx ingress controller does not support any parameters at this time.
-        AppService.defaultIngressClass = new k8s.networking.v1.IngressClass(
-            "defaultIngressClass",
+    /**
+     * Back up the app service's PVC, and resolve the archive to restore it
+     * from if one is configured. Does nothing if the app service has no PVC.
+     * Call it before creating the `Deployment`, whose pods restore the
+     * archive, see `getRestoreContainers`.
+     */
+    protected createBackup() {
+        const backup = this.appServiceArgs.backup;
+        if (!this.pvc || !backup) {
+            return;
+        }
+        if (!backup.enabled && !backup.restore?.[this.name]) {
+            return;
+        }
+
+        this.backup = new VolumeBackup(
+            this.getResourceName(`${this.name}-backup`),
             {
-                metadata: {
-                    name: "defaultNginxIngressClass",
-                    namespace: AppService.appSvcsNamespace?.metadata.name,
-                    annotations: {
-                        // We'll only have a single nginx controller so we'll mark
-                        // this as the default ingress class for all ingress objects.
-                        "ingressclass.kubernetes.io/is-default-class": "true",
-                    },
-                },
-                spec: {
-                    controller: "k8s.io/nginx-ingress",
-                    // nginx-ingress does not support any parameters right now.
-                    // https://github.com/kubernetes/ingress-nginx/issues/5593#issuecomment-721479598
-                    // As an example of what `parameters` is see the AWS ELB doc.
-                    // https://kubernetes-sigs.github.io/aws-load-balancer-controller/v2.3/guide/ingress/ingress_class/#ingressclassparams
-                },
-            }
+                namespace: this.appServiceArgs.namespace,
+                instanceName: this.appServiceArgs.instanceName,
+                serviceName: this.name,
+                pvc: this.pvc,
+                podLabels: this.getPodLabels(),
+                ...this.getNodeSelection(),
+                backup,
+            },
+            { parent: this }
         );
+    }
+
+    /**
+     * Returns the init containers that restore the app service's volume
+     * from an archive, before the app starts.
+     */
+    protected getRestoreContainers(): kx.types.Container[] {
+        const container = this.backup?.getRestoreContainer();
+        return container ? [container] : [];
+    }
+
+    protected getBaseMetadata(): pulumi.Input<k8s.types.input.meta.v1.ObjectMeta> {
+        return {
+            namespace: this.appServiceArgs.namespace,
+        };
+    }
 
-        AppService.ingressControllerChart = new k8s.helm.v3.Chart(
-            "nginx",
+    private createStorage(storageSize: string) {
+        this.pvc = new kx.PersistentVolumeClaim(
+            this.getResourceName(`${this.name}-pvc-rw`),
             {
-                namespace: AppService.appSvcsNamespace.metadata.name,
-                // https://artifacthub.io/packages/helm/ingress-nginx/ingress-nginx
-                chart: "ingress-nginx",
-                version: this.ingressControllerVersion,
-                fetchOpts: {
-                    repo: "https://kubernetes.github.io/ingress-nginx",
-                },
-                values: {
-                    controller: {
-                        publishService: { enabled: true },
-                        config: {
-                            "proxy-body-size": "10M",
-                            "access-log-path": "logs/access.log",
-                            "error-log-path": "logs/error.log",
-                            "http-snippet": `
-                            # Prevent displaying Botpress in an iframe (clickjacking protection)
-                            add_header X-Frame-Options SAMEORIGIN;
-                        
-                            # Prevent browsers from detecting the mimetype if not sent by the server.
-                            add_header X-Content-Type-Options nosniff;
-                        
-                            # Force enable the XSS filter for the website, in case it was disabled manually
-                            add_header X-XSS-Protection "1; mode=block";
-
-                            # Configure the cache for static assets
-                            proxy_cache_path /tmp/nginx_cache levels=1:2 keys_zone=my_cache:10m max_size=10g inactive=60m use_temp_path=off;
-                        `,
-                        },
+                metadata: this.getBaseMetadata(),
+                spec: {
+                    accessModes: ["ReadWriteOnce"],
+                    resources: {
+                        requests: { storage: storageSize },
                     },
                 },
-                transformations: [
-                    (obj: any) => {
-                        // Do transformations on the YAML to set the namespace
-                        if (obj.metadata) {
-                            obj.metadata.namespace =
-                                AppService.appSvcsNamespace!.metadata.name.apply(
-                                    (n) => n
-                                );
-                        }
-                    },
-                ],
             },
-            { parent: this }
+            {
+                parent: this,
+                aliases: this.getLegacyAliases(`${this.name}-pvc-rw`),
+            }
         );
     }
 }
@@ -0,0 +1,252 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as crypto from "crypto";
+import * as http from "http";
+import * as https from "https";
+
+/**
+ * Where the archives of a volume are stored in an S3-compatible bucket.
+ */
+export interface ArchiveLocation {
+    // The endpoint of the object storage, e.g. https://sfo2.digitaloceanspaces.com.
+    endpoint: string;
+    region: string;
+    bucket: string;
+    // The "directory" of the archives, e.g. botpress/botpress/main-server.
+    prefix: string;
+}
+
+export interface ArchiveCredentials {
+    accessKeyId: string;
+    secretAccessKey: string;
+}
+
+function sha256(data: string): string {
+    return crypto.createHash("sha256").update(data).digest("hex");
+}
+
+function hmac(key: crypto.BinaryLike, data: string): Buffer {
+    return crypto.createHmac("sha256", key).update(data).digest();
+}
+
+// The URI encoding of the AWS Signature Version 4.
+function encode(value: string): string {
+    return encodeURIComponent(value).replace(
+        /[!'()*]/g,
+        (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+    );
+}
+
+/**
+ * Sends a `GET` request to the object storage, signed with the AWS
+ * Signature Version 4, and returns the body of the response.
+ * https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-header-based-auth.html
+ */
+function signedGet(
+    location: ArchiveLocation,
+    credentials: ArchiveCredentials,
+    path: string,
+    query: Record<string, string>
+): Promise<string> {
+    const url = new URL(location.endpoint);
+    const now = new Date().toISOString().replace(/[-:]|\.\d{3}/g, "");
+    const date = now.slice(0, 8);
+    const payloadHash = sha256("");
+    const canonicalQuery = Object.keys(query)
+        .sort()
+        .map((key) => `${encode(key)}=${encode(query[key])}`)
+        .join("&");
+    const canonicalPath = path.split("/").map(encode).join("/");
+    const headers: Record<string, string> = {
+        host: url.host,
+        "x-amz-content-sha256": payloadHash,
+        "x-amz-date": now,
+    };
+    const signedHeaders = Object.keys(headers).sort().join(";");
+    const canonicalRequest = [
+        "GET",
+        canonicalPath,
+        canonicalQuery,
+        ...Object.keys(headers)
+            .sort()
+            .map((key) => `${key}:${headers[key]}`),
+        "",
+        signedHeaders,
+        payloadHash,
+    ].join("\n");
+    const scope = `${date}/${location.region}/s3/aws4_request`;
+    const stringToSign = [
+        "AWS4-HMAC-SHA256",
+        now,
+        scope,
+        sha256(canonicalRequest),
+    ].join("\n");
+    let key = hmac(`AWS4${credentials.secretAccessKey}`, date);
+    for (const part of [location.region, "s3", "aws4_request"]) {
+        key = hmac(key, part);
+    }
+    const signature = hmac(key, stringToSign).toString("hex");
+    headers.authorization =
+        `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, ` +
+        `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+
+    const client = url.protocol === "https:" ? https : http;
+    return new Promise((resolve, reject) => {
+        const req = client.request(
+            {
+                protocol: url.protocol,
+                hostname: url.hostname,
+                port: url.port,
+                path: `${canonicalPath}?${canonicalQuery}`,
+                method: "GET",
+                headers,
+            },
+            (res) => {
+                const chunks: Buffer[] = [];
+                res.on("data", (chunk) => chunks.push(chunk));
+                res.on("end", () => {
+                    const text = Buffer.concat(chunks).toString();
+                    const status = res.statusCode || 0;
+                    if (status < 200 || status >= 300) {
+                        reject(
+                            new Error(
+                                `Listing ${location.bucket}/${location.prefix} failed with ${status}: ${text}`
+                            )
+                        );
+                        return;
+                    }
+                    resolve(text);
+                });
+            }
+        );
+        req.on("error", reject);
+        req.end();
+    });
+}
+
+/**
+ * Returns the names of the archives of the location, e.g.
+ * `main-server-20211201T030000Z.tar.gz`.
+ */
+export async function listArchives(
+    location: ArchiveLocation,
+    credentials: ArchiveCredentials
+): Promise<string[]> {
+    const prefix = `${location.prefix.replace(/\/+$/, "")}/`;
+    const names: string[] = [];
+    let continuationToken: string | undefined;
+    do {
+        const query: Record<string, string> = {
+            "list-type": "2",
+            prefix,
+        };
+        if (continuationToken) {
+            query["continuation-token"] = continuationToken;
+        }
+        const xml = await signedGet(
+            location,
+            credentials,
+            `/${location.bucket}`,
+            query
+        );
+        const keys = /<Key>([^<]*)<\/Key>/g;
+        let match: RegExpExecArray | null;
+        while ((match = keys.exec(xml))) {
+            names.push(match[1].slice(prefix.length));
+        }
+        continuationToken = /<IsTruncated>true<\/IsTruncated>/.test(xml)
+            ? /<NextContinuationToken>([^<]*)<\/NextContinuationToken>/.exec(
+                  xml
+              )?.[1]
+            : undefined;
+    } while (continuationToken);
+    return names.filter((name) => name && !name.includes("/"));
+}
+
+export interface BackupArchiveInputs {
+    location: ArchiveLocation;
+    credentials: ArchiveCredentials;
+    // The name of the archive, or `latest`.
+    archive: string;
+}
+
+/**
+ * Resolves `latest` to the name of the most recent archive when the
+ * resource is created. The name then stays the same until the archive or
+ * its location change, so that a newer backup isn't restored over the
+ * volume on every update.
+ */
+export class BackupArchiveProvider implements pulumi.dynamic.ResourceProvider {
+    async create(
+        inputs: BackupArchiveInputs
+    ): Promise<pulumi.dynamic.CreateResult> {
+        let name = inputs.archive;
+        if (name === "latest") {
+            // The archives are named after their date, so the last one is
+            // the most recent.
+            const archives = await listArchives(
+                inputs.location,
+                inputs.credentials
+            );
+            if (archives.length === 0) {
+                throw new Error(
+                    `There is no archive to restore in ${inputs.location.bucket}/${inputs.location.prefix}.`
+                );
+            }
+            name = archives.sort()[archives.length - 1];
+        }
+        return {
+            id: name,
+            // The credentials are left out of the state.
+            outs: {
+                location: inputs.location,
+                archive: inputs.archive,
+                archiveName: name,
+            },
+        };
+    }
+
+    async diff(
+        id: string,
+        olds: BackupArchiveInputs,
+        news: BackupArchiveInputs
+    ): Promise<pulumi.dynamic.DiffResult> {
+        const replaces: string[] = [];
+        if (olds.archive !== news.archive) {
+            replaces.push("archive");
+        }
+        if (JSON.stringify(olds.location) !== JSON.stringify(news.location)) {
+            replaces.push("location");
+        }
+        return { changes: replaces.length > 0, replaces };
+    }
+}
+
+export interface BackupArchiveArgs {
+    location: pulumi.Input<ArchiveLocation>;
+    credentials: pulumi.Input<ArchiveCredentials>;
+    archive: pulumi.Input<string>;
+}
+
+/**
+ * BackupArchive is the archive of a volume to restore, with `latest`
+ * resolved to a concrete archive name at deploy time.
+ */
+export class BackupArchive extends pulumi.dynamic.Resource {
+    // The name of the archive in its location.
+    public readonly archiveName!: pulumi.Output<string>;
+
+    constructor(
+        name: string,
+        args: BackupArchiveArgs,
+        opts?: pulumi.CustomResourceOptions
+    ) {
+        super(
+            new BackupArchiveProvider(),
+            name,
+            { ...args, archiveName: undefined },
+            opts,
+            "botpress",
+            "BackupArchive"
+        );
+    }
+}
@@ -0,0 +1,455 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as http from "http";
+import * as https from "https";
+
+/**
+ * How the dynamic providers reach the admin API of a Botpress server. The
+ * user must be able to manage the workspace, e.g. the superadmin.
+ */
+export interface BotpressAdminConnection {
+    // The external URL of the server, e.g. https://bots.example.com.
+    url: string;
+    email: string;
+    password: string;
+    // Defaults to the `default` workspace.
+    workspace?: string;
+}
+
+type ConnectionInput = {
+    [K in keyof BotpressAdminConnection]: pulumi.Input<
+        BotpressAdminConnection[K]
+    >;
+};
+
+/**
+ * Sends a request to the admin API and returns the `payload` of its
+ * response. The admin API of Botpress 12 is documented in the sources:
+ * https://github.com/botpress/botpress/tree/v12_26_8/packages/bp/src/core/routers/admin
+ */
+function request(
+    connection: BotpressAdminConnection,
+    method: string,
+    path: string,
+    options: {
+        token?: string;
+        json?: unknown;
+        body?: Buffer;
+        contentType?: string;
+    } = {}
+): Promise<any> {
+    const url = new URL(path, connection.url);
+    const body =
+        options.json !== undefined
+            ? Buffer.from(JSON.stringify(options.json))
+            : options.body;
+    const headers: Record<string, string | number> = {
+        "X-BP-Workspace": connection.workspace || "default",
+    };
+    if (options.token) {
+        headers.Authorization = `Bearer ${options.token}`;
+    }
+    if (body) {
+        headers["Content-Type"] =
+            options.json !== undefined
+                ? "application/json"
+                : options.contentType || "application/octet-stream";
+        headers["Content-Length"] = body.length;
+    }
+
+    const client = url.protocol === "https:" ? https : http;
+    return new Promise((resolve, reject) => {
+        const req = client.request(url, { method, headers }, (res) => {
+            const chunks: Buffer[] = [];
+            res.on("data", (chunk) => chunks.push(chunk));
+            res.on("end", () => {
+                const text = Buffer.concat(chunks).toString();
+                const status = res.statusCode || 0;
+                if (status < 200 || status >= 300) {
+                    reject(
+                        new Error(
+                            `${method} ${url.pathname} failed with ${status}: ${text}`
+                        )
+                    );
+                    return;
+                }
+                try {
+                    resolve(text ? JSON.parse(text).payload : undefined);
+                } catch (err) {
+                    reject(
+                        new Error(
+                            `${method} ${url.pathname} returned invalid JSON: ${err}`
+                        )
+                    );
+                }
+            });
+        });
+        req.on("error", reject);
+        req.end(body);
+    });
+}
+
+/**
+ * Logs in with the basic strategy of the `default` auth strategy and returns
+ * the JWT of the session.
+ */
+async function login(connection: BotpressAdminConnection): Promise<string> {
+    const payload = await request(
+        connection,
+        "POST",
+        "/api/v2/admin/auth/login/basic/default",
+        { json: { email: connection.email, password: connection.password } }
+    );
+    if (!payload?.jwt) {
+        throw new Error(
+            `Logging in to ${connection.url} as ${connection.email} returned no token.`
+        );
+    }
+    return payload.jwt;
+}
+
+/**
+ * Returns the SHA-256 of a file, which tells when a bot archive changes.
+ */
+export function hashFile(path: string): string {
+    return crypto
+        .createHash("sha256")
+        .update(fs.readFileSync(path))
+        .digest("hex");
+}
+
+/**
+ * The connection as kept in the state of the resources, without its
+ * password.
+ */
+export type StoredConnection = Omit<BotpressAdminConnection, "password"> & {
+    // Only in the state of the resources created before it was left out.
+    password?: string;
+};
+
+/**
+ * Returns the connection without its password, for the outputs.
+ */
+function toStoredConnection(
+    connection: BotpressAdminConnection
+): StoredConnection {
+    const { password, ...stored } = connection;
+    return stored;
+}
+
+/**
+ * Returns whether the connection to the server changed in a way that
+ * makes the resource a different one. The credentials can change freely.
+ */
+function isOtherServer(
+    olds: StoredConnection,
+    news: StoredConnection
+): boolean {
+    return (
+        olds.url !== news.url ||
+        (olds.workspace || "default") !== (news.workspace || "default")
+    );
+}
+
+/**
+ * The providers of the admin API. The password of the connection is left
+ * out of the outputs, so deleting a resource, which only has its state,
+ * logs in with the `superAdminPassword` secret of the stack config.
+ */
+abstract class AdminProvider {
+    private password: string | undefined;
+
+    async configure(req: pulumi.dynamic.ConfigureRequest) {
+        this.password = req.config.get("superAdminPassword");
+    }
+
+    /**
+     * Returns the connection of the state of a resource, with the password
+     * of the stack config.
+     */
+    protected getConnection(
+        connection: StoredConnection
+    ): BotpressAdminConnection {
+        const password = connection.password ?? this.password;
+        if (password === undefined) {
+            throw new Error(
+                `superAdminPassword: is required to log in to ${connection.url} as ${connection.email}.`
+            );
+        }
+        return { ...connection, password };
+    }
+}
+
+export interface BotInputs {
+    connection: BotpressAdminConnection;
+    botId: string;
+    // The path of the bot's `.tgz` archive, as exported by Botpress.
+    archivePath: string;
+    archiveHash: string;
+}
+
+export type BotState = Omit<BotInputs, "connection"> & {
+    connection: StoredConnection;
+};
+
+/**
+ * Imports a bot archive into the workspace, and re-imports it over the bot
+ * when the archive changes.
+ */
+export class BotProvider
+    extends AdminProvider
+    implements pulumi.dynamic.ResourceProvider
+{
+    async create(inputs: BotInputs): Promise<pulumi.dynamic.CreateResult> {
+        await this.importBot(inputs);
+        return { id: inputs.botId, outs: this.toState(inputs) };
+    }
+
+    async diff(
+        id: string,
+        olds: BotState,
+        news: BotInputs
+    ): Promise<pulumi.dynamic.DiffResult> {
+        const replaces: string[] = [];
+        if (olds.botId !== news.botId) {
+            replaces.push("botId");
+        }
+        if (isOtherServer(olds.connection, news.connection)) {
+            replaces.push("connection");
+        }
+        const changes =
+            replaces.length > 0 ||
+            olds.archiveHash !== news.archiveHash ||
+            olds.archivePath !== news.archivePath;
+        return { changes, replaces };
+    }
+
+    async update(
+        id: string,
+        olds: BotState,
+        news: BotInputs
+    ): Promise<pulumi.dynamic.UpdateResult> {
+        if (olds.archiveHash !== news.archiveHash) {
+            await this.importBot(news);
+        }
+        return { outs: this.toState(news) };
+    }
+
+    async delete(id: string, props: BotState): Promise<void> {
+        const connection = this.getConnection(props.connection);
+        const token = await login(connection);
+        await request(
+            connection,
+            "POST",
+            `/api/v2/admin/workspace/bots/${encodeURIComponent(id)}/delete`,
+            { token }
+        );
+    }
+
+    private toState(inputs: BotInputs): BotState {
+        return { ...inputs, connection: toStoredConnection(inputs.connection) };
+    }
+
+    private async importBot(inputs: BotInputs) {
+        const token = await login(inputs.connection);
+        await request(
+            inputs.connection,
+            "POST",
+            `/api/v2/admin/workspace/bots/${encodeURIComponent(
+                inputs.botId
+            )}/import?overwrite=true`,
+            {
+                token,
+                body: fs.readFileSync(inputs.archivePath),
+                contentType: "application/tar+gzip",
+            }
+        );
+    }
+}
+
+export interface BotpressBotArgs {
+    connection: ConnectionInput;
+    // The ID of the bot in the workspace, e.g. welcome-bot.
+    botId: pulumi.Input<string>;
+    /**
+     * The path of the bot's `.tgz` archive, as exported from the admin UI.
+     * Its hash is read when the program runs, so that changing the archive
+     * re-imports the bot.
+     */
+    archivePath: string;
+}
+
+/**
+ * BotpressBot is a bot of a deployed Botpress server, imported from an
+ * archive versioned alongside the stack. It is managed through the admin
+ * API, so the server must be reachable from where Pulumi runs.
+ *
+ * Deleting the resource deletes the bot from the workspace.
+ */
+export class BotpressBot extends pulumi.dynamic.Resource {
+    public readonly botId!: pulumi.Output<string>;
+    public readonly archiveHash!: pulumi.Output<string>;
+
+    constructor(
+        name: string,
+        args: BotpressBotArgs,
+        opts?: pulumi.CustomResourceOptions
+    ) {
+        super(
+            new BotProvider(),
+            name,
+            {
+                connection: args.connection,
+                botId: args.botId,
+                archivePath: args.archivePath,
+                archiveHash: hashFile(args.archivePath),
+            },
+            opts,
+            "botpress",
+            "BotpressBot"
+        );
+    }
+}
+
+export interface WorkspaceUserInputs {
+    connection: BotpressAdminConnection;
+    email: string;
+    // The auth strategy of the user. Defaults to `default`.
+    strategy?: string;
+    // The role of the user in the workspace, e.g. `dev`.
+    role: string;
+}
+
+export type WorkspaceUserState = Omit<WorkspaceUserInputs, "connection"> & {
+    connection: StoredConnection;
+    // The temporary password the user changes on the first login.
+    tempPassword: string;
+};
+
+/**
+ * Creates a user in the workspace, and changes its role in place.
+ */
+export class WorkspaceUserProvider
+    extends AdminProvider
+    implements pulumi.dynamic.ResourceProvider
+{
+    async create(
+        inputs: WorkspaceUserInputs
+    ): Promise<pulumi.dynamic.CreateResult> {
+        const token = await login(inputs.connection);
+        const strategy = inputs.strategy || "default";
+        const payload = await request(
+            inputs.connection,
+            "POST",
+            "/api/v2/admin/workspace/users",
+            {
+                token,
+                json: { email: inputs.email, strategy, role: inputs.role },
+            }
+        );
+        const outs: WorkspaceUserState = {
+            ...inputs,
+            connection: toStoredConnection(inputs.connection),
+            tempPassword: payload?.tempPassword ?? "",
+        };
+        return { id: `${strategy}/${inputs.email}`, outs };
+    }
+
+    async diff(
+        id: string,
+        olds: WorkspaceUserState,
+        news: WorkspaceUserInputs
+    ): Promise<pulumi.dynamic.DiffResult> {
+        const replaces: string[] = [];
+        if (olds.email !== news.email) {
+            replaces.push("email");
+        }
+        if ((olds.strategy || "default") !== (news.strategy || "default")) {
+            replaces.push("strategy");
+        }
+        if (isOtherServer(olds.connection, news.connection)) {
+            replaces.push("connection");
+        }
+        const changes = replaces.length > 0 || olds.role !== news.role;
+        return { changes, replaces };
+    }
+
+    async update(
+        id: string,
+        olds: WorkspaceUserState,
+        news: WorkspaceUserInputs
+    ): Promise<pulumi.dynamic.UpdateResult> {
+        if (olds.role !== news.role) {
+            const token = await login(news.connection);
+            await request(
+                news.connection,
+                "POST",
+                "/api/v2/admin/workspace/users/workspace/update_role",
+                {
+                    token,
+                    json: {
+                        email: news.email,
+                        strategy: news.strategy || "default",
+                        role: news.role,
+                    },
+                }
+            );
+        }
+        const outs: WorkspaceUserState = {
+            ...news,
+            connection: toStoredConnection(news.connection),
+            tempPassword: olds.tempPassword,
+        };
+        return { outs };
+    }
+
+    async delete(id: string, props: WorkspaceUserState): Promise<void> {
+        const connection = this.getConnection(props.connection);
+        const token = await login(connection);
+        await request(
+            connection,
+            "POST",
+            `/api/v2/admin/workspace/users/${encodeURIComponent(
+                props.strategy || "default"
+            )}/${encodeURIComponent(props.email)}/delete`,
+            { token }
+        );
+    }
+}
+
+export interface BotpressWorkspaceUserArgs {
+    connection: ConnectionInput;
+    email: pulumi.Input<string>;
+    strategy?: pulumi.Input<string>;
+    role: pulumi.Input<string>;
+}
+
+/**
+ * BotpressWorkspaceUser is a user of a workspace of a deployed Botpress
+ * server. Botpress generates the password of a new user of the `basic`
+ * strategy, which is exported as the secret `tempPassword`.
+ */
+export class BotpressWorkspaceUser extends pulumi.dynamic.Resource {
+    public readonly email!: pulumi.Output<string>;
+    public readonly role!: pulumi.Output<string>;
+    public readonly tempPassword!: pulumi.Output<string>;
+
+    constructor(
+        name: string,
+        args: BotpressWorkspaceUserArgs,
+        opts?: pulumi.CustomResourceOptions
+    ) {
+        super(
+            new WorkspaceUserProvider(),
+            name,
+            { ...args, tempPassword: undefined },
+            {
+                ...opts,
+                additionalSecretOutputs: ["tempPassword"],
+            },
+            "botpress",
+            "BotpressWorkspaceUser"
+        );
+    }
+}
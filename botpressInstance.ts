@@ -0,0 +1,208 @@
+import * as pulumi from "@pulumi/pulumi";
+
+import { AppService } from "./appService";
+import { StackConfig } from "./config";
+import { DucklingServer } from "./ducklingServer";
+import { IngressController } from "./ingressController";
+import { LangServer } from "./langServer";
+import { DatabaseConnection, MainServer } from "./mainServer";
+import { NetworkIsolation } from "./networkIsolation";
+import { PostgresServer } from "./postgresServer";
+import { RedisServer } from "./redisServer";
+
+export interface BotpressInstanceArgs
+    extends Pick<
+        StackConfig,
+        | "botpressServerVersion"
+        | "langServer"
+        | "duckling"
+        | "mainServer"
+        | "redis"
+        | "database"
+        | "tls"
+        | "backup"
+        | "networkPolicies"
+        | "upgrade"
+    > {
+    /**
+     * The namespace all of the instance's app services are deployed to.
+     * Several instances can share a namespace.
+     */
+    namespace: pulumi.Output<string>;
+    /**
+     * The hostname the instance is served on. The shared ingress controller
+     * routes the requests to the instance by host. Required when more than
+     * one instance shares the ingress controller.
+     */
+    hostname?: string;
+    ingressController: IngressController;
+    /**
+     * The ID of the cloud-managed cluster, if the cluster is managed by
+     * this stack.
+     */
+    clusterId?: pulumi.Output<string>;
+    /**
+     * The `botpressServerVersion` of the last update of the stack, if any,
+     * which the app services refuse to downgrade from.
+     */
+    deployedBotpressServerVersion?: pulumi.Output<string | undefined>;
+    /**
+     * The resource the language and main servers were parented to before
+     * they were grouped into instances (the DOKS cluster). When set, the
+     * instance adopts their resources from a stack deployed back then, e.g.
+     * its volumes and database, instead of replacing them. Only one instance
+     * of a stack can adopt them.
+     */
+    legacyParent?: pulumi.Resource;
+}
+
+/**
+ * BotpressInstance represents a complete Botpress deployment: the language
+ * server, Duckling, the main server and, depending on the config, Redis
+ * and a database. The traffic of the instance is optionally restricted with
+ * NetworkPolicies.
+ *
+ * The instance name prefixes the names of all of its resources, so one
+ * program can deploy several instances (e.g. per tenant or per team) into
+ * the same cluster, sharing one ingress controller.
+ */
+export class BotpressInstance extends pulumi.ComponentResource {
+    public readonly langServer: LangServer;
+    public readonly ducklingServer: DucklingServer | undefined;
+    public readonly redisServer: RedisServer | undefined;
+    public readonly postgresServer: PostgresServer | undefined;
+    public readonly mainServer: MainServer;
+
+    constructor(
+        name: string,
+        args: BotpressInstanceArgs,
+        opts?: pulumi.ComponentResourceOptions
+    ) {
+        super("botpress-instance", name, undefined, opts);
+
+        // The args shared by all of the app services.
+        const serviceArgs = {
+            instanceName: name,
+            clusterId: args.clusterId,
+            namespace: args.namespace,
+            botpressServerVersion: args.botpressServerVersion,
+            deployedBotpressServerVersion: args.deployedBotpressServerVersion,
+            allowDowngrade: args.upgrade.allowDowngrade,
+            backup: args.backup,
+        };
+
+        this.langServer = new LangServer(
+            {
+                ...serviceArgs,
+                ...args.langServer,
+                legacyParent: args.legacyParent,
+            },
+            { parent: this }
+        );
+
+        // Unless it is co-located with the main server, Duckling runs as its own
+        // app service so that it can be monitored and scaled separately.
+        this.ducklingServer = args.duckling.colocated
+            ? undefined
+            : new DucklingServer(
+                  {
+                      ...serviceArgs,
+                      ...args.duckling,
+                  },
+                  { parent: this }
+              );
+
+        // The main server needs Redis to run more than one replica (cluster mode).
+        this.redisServer = MainServer.isClustered(args.mainServer)
+            ? new RedisServer(
+                  {
+                      ...serviceArgs,
+                      numReplicas: 1,
+                      redisVersion: args.redis.version,
+                  },
+                  { parent: this }
+              )
+            : undefined;
+
+        // Only a managed DO database cluster is created by the main server itself.
+        // The other database providers are wired in through a connection.
+        const usesDatabase = args.mainServer.bpfsStorage === "database";
+        this.postgresServer =
+            usesDatabase && args.database.provider === "in-cluster"
+                ? new PostgresServer(
+                      {
+                          ...serviceArgs,
+                          numReplicas: 1,
+                          postgresVersion: args.database.version,
+                          databaseStorageSize: args.database.storageSize,
+                      },
+                      { parent: this }
+                  )
+                : undefined;
+
+        let databaseConnection: DatabaseConnection | undefined;
+        if (this.postgresServer) {
+            databaseConnection = {
+                url: this.postgresServer.getConnectionString(),
+                sslMode: "disable",
+            };
+        } else if (usesDatabase && args.database.provider === "external") {
+            databaseConnection = {
+                url: args.database.url!,
+                caCert: args.database.caCert,
+                sslMode: "require",
+            };
+        }
+
+        const mainServerDependencies: AppService[] = [this.langServer];
+        if (this.ducklingServer) {
+            mainServerDependencies.push(this.ducklingServer);
+        }
+        if (this.redisServer) {
+            mainServerDependencies.push(this.redisServer);
+        }
+        if (this.postgresServer) {
+            mainServerDependencies.push(this.postgresServer);
+        }
+
+        this.mainServer = new MainServer(
+            {
+                ...serviceArgs,
+                ...args.mainServer,
+                ingressController: args.ingressController,
+                tls: args.tls,
+                langServerServiceEndpoint: this.langServer.getServiceEndpoint(),
+                ducklingServiceEndpoint:
+                    this.ducklingServer?.getServiceEndpoint(),
+                redisServiceEndpoint: this.redisServer?.getServiceEndpoint(),
+                database: args.database,
+                databaseConnection,
+                domainName: args.hostname,
+                snapshot: args.upgrade.snapshot,
+                legacyParent: args.legacyParent,
+            },
+            { parent: this, dependsOn: mainServerDependencies }
+        );
+
+        if (args.networkPolicies.enabled) {
+            new NetworkIsolation(
+                `${name}-network-isolation`,
+                {
+                    instanceName: name,
+                    namespace: args.namespace,
+                    ingressController: args.ingressController,
+                    mainServer: this.mainServer,
+                    langServer: this.langServer,
+                    ducklingServer: this.ducklingServer,
+                    redisServer: this.redisServer,
+                    postgresServer: this.postgresServer,
+                    tls: args.tls.enabled,
+                    externalEgress: args.networkPolicies.externalEgress,
+                },
+                { parent: this }
+            );
+        }
+
+        this.registerOutputs({});
+    }
+}
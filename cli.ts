@@ -0,0 +1,169 @@
+/**
+ * Deploys the environments of `environments/` with the Pulumi Automation
+ * API, running `program.ts` as an inline program:
+ *
+ *   npm run cli -- <command> <environment> [options]
+ *
+ * The progress of Pulumi is written to stderr, and the result of the command
+ * to stdout as JSON, so that it can be piped into other tools.
+ */
+
+import { LocalWorkspace, OutputMap, Stack } from "@pulumi/pulumi/automation";
+import * as fs from "fs";
+import * as path from "path";
+
+import {
+    Environment,
+    diffConfig,
+    loadEnvironment,
+    toStackConfig,
+} from "./environment";
+import { deployBotpress } from "./program";
+
+const usage = `Usage: npm run cli -- <command> [options]
+
+Commands:
+  preview <environment>             Preview the changes of an update
+  up <environment>                  Update the stack of the environment
+  destroy <environment>             Destroy the stack of the environment
+  outputs <environment>             Print the outputs of the stack
+  diff-config <from> <to>           Compare the config of two environments
+
+Options:
+  --show-secrets                    Print the secret outputs in plain text`;
+
+// The state of the local file backend and the settings of its stacks, which
+// hold the salt of their secrets.
+const stateDirectory = path.join(__dirname, ".pulumi-state");
+
+/**
+ * Selects the stack of the environment, creating it on its first use, and
+ * sets its config to the one of the environment.
+ */
+async function selectStack(environment: Environment, name: string) {
+    const backendUrl = environment.backendUrl || `file://${stateDirectory}`;
+    if (
+        backendUrl.startsWith("file://") &&
+        process.env.PULUMI_CONFIG_PASSPHRASE === undefined &&
+        process.env.PULUMI_CONFIG_PASSPHRASE_FILE === undefined
+    ) {
+        throw new Error(
+            "The secrets of a local file backend are encrypted with a passphrase: set PULUMI_CONFIG_PASSPHRASE or PULUMI_CONFIG_PASSPHRASE_FILE."
+        );
+    }
+    // Read the secrets first, so that a missing one fails before anything
+    // is created.
+    const config = toStackConfig(environment);
+
+    const workDir = path.join(stateDirectory, "workspaces", name);
+    fs.mkdirSync(workDir, { recursive: true });
+    const stack = await LocalWorkspace.createOrSelectStack(
+        {
+            stackName: environment.stackName || name,
+            projectName: "botpress",
+            program: async () => deployBotpress(),
+        },
+        {
+            workDir,
+            projectSettings: {
+                name: "botpress",
+                runtime: "nodejs",
+                backend: { url: backendUrl },
+            },
+            secretsProvider: backendUrl.startsWith("file://")
+                ? "passphrase"
+                : undefined,
+        }
+    );
+
+    // The keys removed from the environment file are removed from the stack
+    // too.
+    const stale = Object.keys(await stack.getAllConfig()).filter(
+        (key) => !(key in config)
+    );
+    if (stale.length > 0) {
+        await stack.removeAllConfig(stale);
+    }
+    await stack.setAllConfig(config);
+    return stack;
+}
+
+/**
+ * Returns the values of the outputs, with the secrets masked unless they're
+ * asked for.
+ */
+function formatOutputs(
+    outputs: OutputMap,
+    showSecrets: boolean
+): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const [key, output] of Object.entries(outputs)) {
+        values[key] = output.secret && !showSecrets ? "[secret]" : output.value;
+    }
+    return values;
+}
+
+const onOutput = (out: string) => process.stderr.write(out);
+
+async function run(
+    command: string,
+    names: string[],
+    showSecrets: boolean
+): Promise<unknown> {
+    if (command === "diff-config") {
+        if (names.length !== 2) {
+            throw new Error(usage);
+        }
+        const [from, to] = names.map((name) => loadEnvironment(name));
+        return { from: names[0], to: names[1], ...diffConfig(from, to) };
+    }
+
+    if (names.length !== 1) {
+        throw new Error(usage);
+    }
+    const [name] = names;
+    const stack: Stack = await selectStack(loadEnvironment(name), name);
+    const result = { environment: name, stack: stack.name };
+    switch (command) {
+        case "preview": {
+            const preview = await stack.preview({ onOutput, diff: true });
+            return { ...result, changes: preview.changeSummary };
+        }
+        case "up": {
+            const up = await stack.up({ onOutput });
+            return {
+                ...result,
+                changes: up.summary.resourceChanges,
+                outputs: formatOutputs(up.outputs, showSecrets),
+            };
+        }
+        case "destroy": {
+            const destroy = await stack.destroy({ onOutput });
+            return { ...result, changes: destroy.summary.resourceChanges };
+        }
+        case "outputs":
+            return {
+                ...result,
+                outputs: formatOutputs(await stack.outputs(), showSecrets),
+            };
+        default:
+            throw new Error(usage);
+    }
+}
+
+async function main() {
+    const args = process.argv.slice(2);
+    const options = args.filter((arg) => arg.startsWith("--"));
+    if (options.some((option) => option !== "--show-secrets")) {
+        throw new Error(usage);
+    }
+    const [command, ...names] = args.filter((arg) => !arg.startsWith("--"));
+    const showSecrets = options.includes("--show-secrets");
+    const result = await run(command, names, showSecrets);
+    process.stdout.write(`${JSON.stringify(result, undefined, 2)}\n`);
+}
+
+main().catch((err) => {
+    process.stderr.write(`${err instanceof Error ? err.message : err}\n`);
+    process.exit(1);
+});
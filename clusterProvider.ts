@@ -0,0 +1,205 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as digitalocean from "@pulumi/digitalocean";
+import * as k8s from "@pulumi/kubernetes";
+
+import { ClusterConfig, NodePoolConfig } from "./config";
+
+/**
+ * A `ClusterProvider` supplies everything the app services need from the
+ * underlying Kubernetes cluster, regardless of where that cluster lives.
+ */
+export interface ClusterProvider {
+    /**
+     * The Kubernetes provider used to deploy all of the app services.
+     */
+    readonly provider: k8s.Provider;
+    /**
+     * The ID of the cloud-managed cluster, if the cluster is managed by
+     * this stack. Only DOKS clusters have one, and it is used to add the
+     * cluster as a trusted source of the managed database cluster.
+     */
+    readonly clusterId?: pulumi.Output<string>;
+    /**
+     * The resource the app services should be parented to, if any.
+     */
+    readonly parent?: pulumi.Resource;
+}
+
+export interface DoksClusterProviderArgs {
+    /**
+     * The DigitalOcean Managed Kubernetes Service version.
+     * See the changelog here:
+     * https://www.digitalocean.com/docs/kubernetes/changelog/
+     */
+    version: string;
+    region: digitalocean.Region;
+    nodeSize: string;
+    nodeCount: number;
+    /**
+     * The node pools created besides the default one.
+     */
+    nodePools?: NodePoolConfig[];
+}
+
+/**
+ * Creates a DigitalOcean Managed Kubernetes cluster and a Kubernetes
+ * provider that targets it.
+ *
+ * Digital Ocean has some limitations for their Managed Kubernetes offering.
+ * Specifically, there are some limitations on the DO block storage volumes created
+ * via `PersistentVolumeClaim`s.
+ *
+ * For example, at the time of this writing, the following limitations apply:
+ *
+ * Permissions: The other parameters, ReadOnlyMany and ReadWriteMany, are not
+ * supported by DigitalOcean volumes.
+ *
+ * Resizing block storage volumes has not yet been implemented, and changing
+ * the storage value in the resource definition after the volume has been
+ * created will have no effect.
+ *
+ * Read more here: https://www.digitalocean.com/docs/kubernetes/.
+ */
+export class DoksClusterProvider implements ClusterProvider {
+    public static readonly NODE_POOL_TAG = "botpress";
+
+    public readonly cluster: digitalocean.KubernetesCluster;
+    public readonly nodePools: digitalocean.KubernetesNodePool[];
+    public readonly provider: k8s.Provider;
+    public readonly clusterId: pulumi.Output<string>;
+    public readonly parent: pulumi.Resource;
+
+    constructor(args: DoksClusterProviderArgs) {
+        this.cluster = new digitalocean.KubernetesCluster(
+            "botpressCluster",
+            {
+                name: "botpress-cluster",
+                region: args.region,
+                version: args.version,
+                nodePool: {
+                    name: "default-pool",
+                    size: args.nodeSize,
+                    nodeCount: args.nodeCount,
+                    tags: [DoksClusterProvider.NODE_POOL_TAG],
+                },
+            },
+            { customTimeouts: { create: "1h" } }
+        );
+
+        this.nodePools = (args.nodePools || []).map(
+            (pool) =>
+                new digitalocean.KubernetesNodePool(
+                    `${pool.name}-pool`,
+                    {
+                        clusterId: this.cluster.id,
+                        name: pool.name,
+                        size: pool.size,
+                        nodeCount: pool.nodeCount,
+                        autoScale: pool.autoScale !== undefined,
+                        minNodes: pool.autoScale?.minNodes,
+                        maxNodes: pool.autoScale?.maxNodes,
+                        labels: pool.labels,
+                        taints: pool.taints,
+                        tags: [DoksClusterProvider.NODE_POOL_TAG],
+                    },
+                    { parent: this.cluster }
+                )
+        );
+
+        // The pods pinned to a node pool can only be scheduled once it
+        // exists.
+        this.provider = new k8s.Provider(
+            "doK8s",
+            {
+                kubeconfig: this.cluster.kubeConfigs[0].rawConfig,
+            },
+            { dependsOn: [this.cluster, ...this.nodePools] }
+        );
+
+        this.clusterId = this.cluster.id;
+        this.parent = this.cluster;
+    }
+}
+
+export interface KubeconfigClusterProviderArgs {
+    /**
+     * The contents of, or the path to, the kubeconfig of the cluster.
+     * If not set, the ambient kubeconfig (`KUBECONFIG` or `~/.kube/config`)
+     * is used.
+     */
+    kubeconfig?: pulumi.Input<string>;
+    /**
+     * The kubeconfig context to use. Defaults to the current context.
+     */
+    context?: string;
+}
+
+/**
+ * Targets an existing cluster with a kubeconfig, i.e. "bring your own
+ * cluster". This is also how local kind/k3s clusters are used.
+ */
+export class KubeconfigClusterProvider implements ClusterProvider {
+    public readonly provider: k8s.Provider;
+
+    constructor(args: KubeconfigClusterProviderArgs) {
+        this.provider = new k8s.Provider("byoK8s", {
+            kubeconfig: args.kubeconfig,
+            context: args.context,
+        });
+    }
+}
+
+export interface RenderClusterProviderArgs {
+    /**
+     * The directory the manifests are written to.
+     */
+    directory: string;
+}
+
+/**
+ * Renders the manifests of the stack to a directory instead of applying
+ * them, for a GitOps tool (e.g. Argo CD) to sync. No cluster is created or
+ * reached, so nothing is read back from the cluster: the values that the
+ * cloud would provide, like the endpoint of the ingress load balancer, come
+ * from the stack config.
+ *
+ * The CRDs are written to `0-crd` and the other resources to `1-manifest`.
+ * The secrets are written in plain text, so the directory must be handled
+ * as a secret too.
+ * https://www.pulumi.com/registry/packages/kubernetes/api-docs/provider/#renderyamltodirectory_nodejs
+ */
+export class RenderClusterProvider implements ClusterProvider {
+    public readonly provider: k8s.Provider;
+
+    constructor(args: RenderClusterProviderArgs) {
+        this.provider = new k8s.Provider("renderK8s", {
+            renderYamlToDirectory: args.directory,
+        });
+    }
+}
+
+/**
+ * Creates the cluster provider selected by the `cluster.provider` stack
+ * config.
+ */
+export function createClusterProvider(cluster: ClusterConfig): ClusterProvider {
+    switch (cluster.provider) {
+        case "doks":
+            return new DoksClusterProvider({
+                version: cluster.version,
+                region: cluster.region,
+                nodeSize: cluster.nodeSize,
+                nodeCount: cluster.nodeCount,
+                nodePools: cluster.nodePools,
+            });
+        case "kubeconfig":
+            return new KubeconfigClusterProvider({
+                kubeconfig: cluster.kubeconfig,
+                context: cluster.kubeContext,
+            });
+        case "render":
+            return new RenderClusterProvider({
+                directory: cluster.renderDirectory,
+            });
+    }
+}
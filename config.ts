@@ -0,0 +1,1987 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as digitalocean from "@pulumi/digitalocean";
+import * as k8s from "@pulumi/kubernetes";
+import * as fs from "fs";
+
+/**
+ * The kinds of clusters that the Botpress stack can be deployed onto.
+ *
+ * - `doks` creates a new DigitalOcean Managed Kubernetes cluster.
+ * - `kubeconfig` deploys onto an existing cluster (including local
+ *   kind/k3s clusters) reachable with a kubeconfig.
+ * - `render` writes the manifests of the stack to a directory instead, for
+ *   a GitOps tool (e.g. Argo CD) to apply. No cluster is created or
+ *   reached.
+ */
+export type ClusterProviderKind = "doks" | "kubeconfig" | "render";
+
+/**
+ * Where Botpress stores its BPFS content (bots, configs, etc.)
+ * See https://botpress.com/docs/advanced/hosting#botpress-file-system.
+ */
+export type BpfsStorage = "disk" | "database";
+
+/**
+ * The effects of the taints of the nodes on the pods that don't tolerate
+ * them.
+ */
+export type TaintEffect = "NoSchedule" | "PreferNoSchedule" | "NoExecute";
+
+export interface TaintConfig {
+    key: string;
+    value: string;
+    effect: TaintEffect;
+}
+
+/**
+ * A DOKS node pool added to the cluster's default one, e.g. to keep the
+ * language server apart from the main server.
+ */
+export interface NodePoolConfig {
+    name: string;
+    size: string;
+    /**
+     * The number of nodes. With `autoScale`, the initial number of nodes.
+     */
+    nodeCount: number;
+    autoScale?: {
+        minNodes: number;
+        maxNodes: number;
+    };
+    /**
+     * The Kubernetes labels of the nodes.
+     */
+    labels: Record<string, string>;
+    /**
+     * Only the pods that tolerate the taints are scheduled on the nodes.
+     */
+    taints: TaintConfig[];
+}
+
+export interface ClusterConfig {
+    provider: ClusterProviderKind;
+    /**
+     * The DigitalOcean Managed Kubernetes Service version.
+     * See the changelog here:
+     * https://www.digitalocean.com/docs/kubernetes/changelog/
+     */
+    version: string;
+    region: digitalocean.Region;
+    nodeSize: string;
+    nodeCount: number;
+    /**
+     * The node pools created besides the default one, with the `doks`
+     * provider.
+     */
+    nodePools: NodePoolConfig[];
+    /**
+     * The kubeconfig context to use with the `kubeconfig` provider.
+     */
+    kubeContext?: string;
+    /**
+     * The contents of, or the path to, the kubeconfig used by the
+     * `kubeconfig` provider. Read from the `kubeconfig` secret.
+     */
+    kubeconfig?: pulumi.Output<string>;
+    /**
+     * The directory the `render` provider writes the manifests to.
+     */
+    renderDirectory: string;
+}
+
+export interface ProbeConfig {
+    /**
+     * The HTTP path to probe. If not set, a TCP connection to the port
+     * is attempted instead.
+     */
+    path?: string;
+    port?: number;
+    initialDelaySeconds?: number;
+    periodSeconds?: number;
+    timeoutSeconds?: number;
+    failureThreshold?: number;
+}
+
+export interface ProbesConfig {
+    liveness?: ProbeConfig;
+    readiness?: ProbeConfig;
+    startup?: ProbeConfig;
+}
+
+export interface ResourceListConfig {
+    cpu?: string;
+    memory?: string;
+}
+
+export interface ResourcesConfig {
+    requests?: ResourceListConfig;
+    limits?: ResourceListConfig;
+}
+
+export interface AutoscalingConfig {
+    minReplicas: number;
+    maxReplicas: number;
+    targetCpuUtilizationPercentage: number;
+}
+
+export interface TolerationConfig {
+    key?: string;
+    operator: "Exists" | "Equal";
+    value?: string;
+    effect?: TaintEffect;
+}
+
+/**
+ * The settings shared by every workload. They override the defaults of
+ * each app service.
+ */
+export interface WorkloadConfig {
+    probes?: ProbesConfig;
+    resources?: ResourcesConfig;
+    /**
+     * When set, a HorizontalPodAutoscaler manages the number of replicas.
+     */
+    autoscaling?: AutoscalingConfig;
+    /**
+     * The labels of the nodes the pods run on. Setting `nodePool` in the
+     * stack config selects the nodes of the pool, and tolerates its taints.
+     */
+    nodeSelector?: Record<string, string>;
+    tolerations?: TolerationConfig[];
+    /**
+     * The affinity of the pods, as in the pod spec. By default, the
+     * replicas are spread across the nodes.
+     */
+    affinity?: k8s.types.input.core.v1.Affinity;
+}
+
+export interface AppServiceConfig extends WorkloadConfig {
+    numReplicas: number;
+    /**
+     * The storage size of the PVC.
+     * See limitations:
+     * https://www.digitalocean.com/docs/kubernetes/resources/volume-features/
+     */
+    storageSize: string;
+}
+
+/**
+ * The dimensions of the word embeddings published for the language server.
+ */
+export type EmbeddingDimension = 100 | 300;
+
+export interface EmbeddingsPreseedConfig {
+    /**
+     * The image of the init container that pre-seeds the embeddings. It
+     * needs `sh`, `tar` and, to download the archive, `curl`.
+     */
+    image: string;
+    /**
+     * The object storage URL (e.g. a pre-signed DO Spaces URL) of the
+     * `.tar.gz` archive of the embeddings.
+     */
+    url?: string;
+    /**
+     * The path of the `.tar.gz` archive of the embeddings bundled in the
+     * image, when `url` isn't set.
+     */
+    archivePath?: string;
+}
+
+export interface LangServerConfig extends AppServiceConfig {
+    /**
+     * The languages to serve, e.g. `["en", "fr"]`. Only the models of these
+     * languages are pre-seeded. All of them if not set.
+     */
+    languages?: string[];
+    dimension: EmbeddingDimension;
+    /**
+     * When set, the language server doesn't download any model and only
+     * serves the ones on its volume.
+     */
+    offline: boolean;
+    /**
+     * The URL or path of the metadata file listing the models to download.
+     * The language server's default (Botpress' public bucket) if not set.
+     */
+    modelSource?: string;
+    /**
+     * When set, an init container extracts an archive of the embeddings
+     * onto the volume before the language server starts, so that it can
+     * start without downloading anything.
+     */
+    preseed?: EmbeddingsPreseedConfig;
+}
+
+export interface DucklingConfig extends WorkloadConfig {
+    /**
+     * Run Duckling in the background of the main server's container instead
+     * of as its own app service.
+     */
+    colocated: boolean;
+    numReplicas: number;
+}
+
+export interface RedisConfig {
+    /**
+     * The version (image tag) of the `redis` image. Redis is only deployed
+     * when the main server runs more than one replica.
+     */
+    version: string;
+}
+
+export interface DatabasePoolConfig {
+    min: number;
+    max: number;
+}
+
+/**
+ * How the path of a route is matched. `ImplementationSpecific` paths are
+ * regular expressions.
+ */
+export type RoutePathType = "Exact" | "Prefix" | "ImplementationSpecific";
+
+export interface RouteCacheConfig {
+    /**
+     * How long the ingress controller caches the responses, e.g. `30m`.
+     */
+    validity: string;
+    /**
+     * The `max-age` of the responses' `Cache-Control` header, in seconds.
+     */
+    maxAge: number;
+}
+
+/**
+ * The proxy timeouts of a route, in seconds.
+ */
+export interface RouteTimeoutsConfig {
+    connect?: number;
+    read?: number;
+    send?: number;
+}
+
+/**
+ * A route from the ingress controller to an app service.
+ */
+export interface RouteConfig {
+    /**
+     * Names the `<instance>-<name>-ingress` Ingress of the route.
+     */
+    name: string;
+    path: string;
+    pathType: RoutePathType;
+    /**
+     * The host the route matches, instead of the instance's hostname.
+     */
+    host?: string;
+    /**
+     * Cache the responses in the ingress controller.
+     */
+    cache?: RouteCacheConfig;
+    /**
+     * Upgrade the connections to websockets.
+     */
+    websocket?: boolean;
+    /**
+     * Pin each client to a pod with a cookie.
+     */
+    stickySessions?: boolean;
+    /**
+     * The max size of the request bodies, e.g. `10m`. The ingress
+     * controller's default is used if not set.
+     */
+    bodySize?: string;
+    timeouts?: RouteTimeoutsConfig;
+}
+
+/**
+ * Overrides of the server's `botpress.config.json`, keyed like the file.
+ * Only the settings that are commonly overridden are typed.
+ * https://github.com/botpress/botpress/blob/v12_26_8/packages/bp/src/core/config/botpress.config.ts
+ */
+export interface BotpressConfigOverrides {
+    httpServer?: {
+        bodyLimit?: string;
+        cors?: { enabled?: boolean; origin?: string };
+        [key: string]: unknown;
+    };
+    /**
+     * The authentication strategies of the users, by id.
+     */
+    authStrategies?: Record<
+        string,
+        {
+            type: "basic" | "saml" | "ldap" | "oauth2";
+            label?: string;
+            options?: Record<string, unknown>;
+            [key: string]: unknown;
+        }
+    >;
+    /**
+     * The modules, and whether they're enabled.
+     */
+    modules?: { location: string; enabled: boolean }[];
+    [key: string]: unknown;
+}
+
+export interface BotpressProConfig {
+    enabled: boolean;
+    /**
+     * Read from the `botpressLicenseKey` secret.
+     */
+    licenseKey?: pulumi.Output<string>;
+}
+
+/**
+ * The first user of the server, who is made a superadmin.
+ */
+export interface SuperAdminConfig {
+    email: string;
+    /**
+     * Read from the `superAdminPassword` secret.
+     */
+    password: pulumi.Output<string>;
+}
+
+/**
+ * The configuration of the Botpress server, as code.
+ */
+export interface BotpressServerConfig {
+    /**
+     * Passed to the server as `BP_CONFIG_*` env vars, which take precedence
+     * over the `botpress.config.json` of the BPFS.
+     */
+    overrides: BotpressConfigOverrides;
+    /**
+     * A complete `botpress.config.json` mounted from a ConfigMap, which
+     * replaces the one of the BPFS. Requires the `disk` BPFS storage.
+     */
+    file?: BotpressConfigOverrides;
+    pro: BotpressProConfig;
+    superAdmin?: SuperAdminConfig;
+}
+
+/**
+ * A bot imported into the main server from an archive.
+ */
+export interface BotConfig {
+    // The ID of the bot in the workspace.
+    id: string;
+    // The path of the bot's `.tgz` archive, relative to the project.
+    archive: string;
+}
+
+/**
+ * A user of the main server's workspace.
+ */
+export interface WorkspaceUserConfig {
+    email: string;
+    // The role of the user in the workspace, e.g. `dev`.
+    role: string;
+    // The auth strategy of the user.
+    strategy: string;
+}
+
+export interface MainServerConfig extends AppServiceConfig {
+    bpfsStorage: BpfsStorage;
+    /**
+     * The knex pool settings used by the Botpress server.
+     * Passed to the server as `DATABASE_POOL`.
+     */
+    databasePool: DatabasePoolConfig;
+    /**
+     * The routes to the server added to its default ones, e.g. with long
+     * timeouts for the webhooks of a channel.
+     */
+    routes: RouteConfig[];
+    botpressConfig: BotpressServerConfig;
+    /**
+     * The bots and workspace users managed through the admin API with
+     * the superadmin's credentials.
+     */
+    bots: BotConfig[];
+    workspaceUsers: WorkspaceUserConfig[];
+}
+
+/**
+ * Where the database used by the `database` BPFS storage comes from.
+ *
+ * - `managed-do` creates a DigitalOcean managed Postgres cluster.
+ * - `external` uses an existing database via a connection string.
+ * - `in-cluster` runs a single Postgres server in the cluster.
+ */
+export type DatabaseProvider = "managed-do" | "external" | "in-cluster";
+
+export interface DatabaseConfig {
+    provider: DatabaseProvider;
+    /**
+     * The size of the nodes in the database cluster.
+     * Required only if `bpfsStorage` is set to `database` and the
+     * provider is `managed-do`.
+     */
+    size?: digitalocean.DatabaseSlug;
+    /**
+     * The PostgreSQL major version.
+     */
+    version: string;
+    nodeCount: number;
+    region: digitalocean.Region;
+    connectionPoolSize: number;
+    /**
+     * The storage size of the `in-cluster` database's PVC.
+     */
+    storageSize: string;
+    /**
+     * The connection string of the `external` database.
+     * Read from the `databaseUrl` secret.
+     */
+    url?: pulumi.Output<string>;
+    /**
+     * The CA certificate of the `external` database, if it uses one that
+     * isn't publicly trusted. Read from the `databaseCaCert` secret.
+     */
+    caCert?: pulumi.Output<string>;
+}
+
+/**
+ * The Let's Encrypt environment certificates are requested from.
+ * Use `staging` while testing to avoid the production rate limits.
+ */
+export type AcmeIssuer = "staging" | "production";
+
+export interface TlsConfig {
+    enabled: boolean;
+    issuer: AcmeIssuer;
+    /**
+     * The email address Let's Encrypt sends expiry notices to.
+     * Required when TLS is enabled.
+     */
+    email?: string;
+    // The cert-manager Helm chart version.
+    certManagerVersion: string;
+}
+
+export interface BackupConfig {
+    enabled: boolean;
+    /**
+     * The cron schedule of the backups, e.g. `0 3 * * *`.
+     */
+    schedule: string;
+    /**
+     * The endpoint of the S3-compatible object storage, e.g.
+     * `https://sfo2.digitaloceanspaces.com` for DO Spaces, or the URL of a
+     * MinIO server for local testing.
+     */
+    endpoint?: string;
+    bucket?: string;
+    region: string;
+    /**
+     * The archives are stored under `<prefix>/<instance name>/<app service name>/`.
+     */
+    prefix: string;
+    retentionDays: number;
+    // The rclone image version used by the backup jobs.
+    rcloneVersion: string;
+    /**
+     * Read from the `backupAccessKeyId` secret.
+     */
+    accessKeyId?: pulumi.Output<string>;
+    /**
+     * Read from the `backupSecretAccessKey` secret.
+     */
+    secretAccessKey?: pulumi.Output<string>;
+    /**
+     * The archives to restore, by app service name (`lang-server` or
+     * `main-server`). Use `latest` to restore the most recent archive.
+     */
+    restore?: Record<string, string>;
+}
+
+export interface EgressRuleConfig {
+    /**
+     * The IP block of the endpoint, e.g. `0.0.0.0/0` or `203.0.113.0/24`.
+     */
+    cidr: string;
+    /**
+     * The TCP ports of the endpoint. All of them if not set.
+     */
+    ports?: number[];
+}
+
+export interface UpgradeSnapshotConfig {
+    /**
+     * Snapshot the main server's volume before migrating it to a new
+     * `botpressServerVersion`. Requires the CSI snapshot CRDs, which DOKS
+     * installs.
+     */
+    enabled: boolean;
+    volumeSnapshotClass: string;
+}
+
+export interface UpgradeConfig {
+    /**
+     * Deploy a `botpressServerVersion` older than the deployed one. The
+     * server's migrations only go up, so it's only safe once the data of
+     * the older version is restored.
+     */
+    allowDowngrade: boolean;
+    snapshot: UpgradeSnapshotConfig;
+}
+
+export interface NetworkPoliciesConfig {
+    /**
+     * Isolate the app services with NetworkPolicies. The cluster's network
+     * plugin must support them (DOKS' Cilium does).
+     */
+    enabled: boolean;
+    /**
+     * The external endpoints every pod of the instance may connect to, such
+     * as the channels' APIs, the model source or the backup bucket.
+     */
+    externalEgress: EgressRuleConfig[];
+}
+
+export interface GrafanaConfig {
+    enabled: boolean;
+    /**
+     * The hostname Grafana is served on by the ingress controller. Grafana
+     * is only reachable with a port-forward if not set.
+     */
+    hostname?: string;
+}
+
+export interface MonitoringConfig {
+    /**
+     * Deploy Prometheus (and Grafana) into the `monitoring` namespace and
+     * enable the metrics of the ingress controller.
+     */
+    enabled: boolean;
+    // The kube-prometheus-stack Helm chart version.
+    chartVersion: string;
+    /**
+     * How long Prometheus keeps the samples, e.g. `7d`.
+     */
+    retention: string;
+    /**
+     * The storage size of the Prometheus PVC.
+     */
+    storageSize: string;
+    grafana: GrafanaConfig;
+}
+
+/**
+ * Where the log collector ships the logs to.
+ *
+ * - `loki` deploys a single Loki server into the `logging` namespace.
+ * - `http` POSTs the logs as JSON lines to an HTTP endpoint.
+ */
+export type LogSinkKind = "loki" | "http";
+
+export interface LokiConfig {
+    // The grafana/loki Helm chart version.
+    chartVersion: string;
+    /**
+     * The storage size of the Loki PVC.
+     */
+    storageSize: string;
+    /**
+     * How long Loki keeps the logs, e.g. `168h`.
+     */
+    retention: string;
+}
+
+export interface HttpLogSinkConfig {
+    url?: string;
+    /**
+     * The value of the `Authorization` header of the requests. Read from
+     * the `loggingHttpAuthorization` secret.
+     */
+    authorization?: pulumi.Output<string>;
+}
+
+export interface LoggingConfig {
+    /**
+     * Collect the logs of the Botpress pods and the ingress controller with
+     * a Fluent Bit DaemonSet.
+     */
+    enabled: boolean;
+    // The fluent-bit Helm chart version.
+    fluentBitVersion: string;
+    sink: LogSinkKind;
+    loki: LokiConfig;
+    http: HttpLogSinkConfig;
+}
+
+/**
+ * How the traffic from the outside (internet) reaches the main servers.
+ *
+ * - `nginx` deploys the ingress-nginx controller.
+ * - `traefik` deploys Traefik, configured with `IngressRoute` and
+ *   `Middleware` resources.
+ * - `load-balancer` exposes a single main server with its own
+ *   `LoadBalancer` Service, without an ingress controller.
+ */
+export type IngressBackendKind = "nginx" | "traefik" | "load-balancer";
+
+export interface IngressConfig {
+    backend: IngressBackendKind;
+    /**
+     * The Helm chart version of the ingress controller. Not used by the
+     * `load-balancer` backend.
+     */
+    version: string;
+    /**
+     * How long to wait for the cloud to provision the load balancer.
+     */
+    loadBalancerTimeoutMinutes: number;
+    /**
+     * The IP and hostname of the ingress controller's load balancer. When
+     * set, they're used instead of the endpoint the cloud provisions, which
+     * the `render` provider never sees.
+     */
+    ip?: string;
+    hostname?: string;
+}
+
+export interface StackConfig {
+    botpressServerVersion: string;
+    ingress: IngressConfig;
+    customDomain?: string;
+    cluster: ClusterConfig;
+    langServer: LangServerConfig;
+    duckling: DucklingConfig;
+    mainServer: MainServerConfig;
+    redis: RedisConfig;
+    database: DatabaseConfig;
+    tls: TlsConfig;
+    backup: BackupConfig;
+    networkPolicies: NetworkPoliciesConfig;
+    upgrade: UpgradeConfig;
+    monitoring: MonitoringConfig;
+    logging: LoggingConfig;
+}
+
+const quantityRegex = /^[0-9]+(\.[0-9]+)?(m|Ki|Mi|Gi|Ti|Pi|Ei|k|M|G|T|P|E)?$/;
+const nginxSizeRegex = /^[0-9]+[kKmMgG]?$/;
+const nginxTimeRegex = /^[0-9]+(ms|s|m|h|d|w|M|y)?$/;
+const routeNameRegex = /^[a-z0-9]([-a-z0-9]*[a-z0-9])?$/;
+const durationRegex = /^[0-9]+(ms|s|m|h|d|w|y)$/;
+const taintEffects: TaintEffect[] = [
+    "NoSchedule",
+    "PreferNoSchedule",
+    "NoExecute",
+];
+// The label DOKS sets on the nodes with the name of their pool.
+const doksNodePoolLabel = "doks.digitalocean.com/node-pool";
+const emailRegex = /^[^@\s]+@[^@\s]+$/;
+// The bot IDs of Botpress.
+const botIdRegex = /^[a-z0-9][-_a-z0-9]*$/;
+const storageQuantityRegex =
+    /^[0-9]+(\.[0-9]+)?(Ki|Mi|Gi|Ti|Pi|Ei|k|M|G|T|P|E)?$/;
+
+/**
+ * Collects the problems found while reading the stack config so that
+ * they can all be reported together.
+ */
+class ConfigReader {
+    public readonly errors: string[] = [];
+
+    constructor(private readonly config: pulumi.Config) {}
+
+    object(key: string): Record<string, any> {
+        let value: unknown;
+        try {
+            value = this.config.getObject<unknown>(key);
+        } catch (err) {
+            this.errors.push(`${key}: must be valid JSON (${err}).`);
+            return {};
+        }
+
+        return this.plainObject(key, value);
+    }
+
+    plainObject(key: string, value: unknown): Record<string, any> {
+        if (value === undefined) {
+            return {};
+        }
+        if (
+            typeof value !== "object" ||
+            value === null ||
+            Array.isArray(value)
+        ) {
+            this.errors.push(`${key}: must be an object.`);
+            return {};
+        }
+        return value as Record<string, any>;
+    }
+
+    string(key: string, value: unknown, defaultValue: string): string;
+    string(key: string, value: unknown): string | undefined;
+    string(key: string, value: unknown, defaultValue?: string) {
+        if (value === undefined) {
+            return defaultValue;
+        }
+        if (typeof value !== "string" || value === "") {
+            this.errors.push(`${key}: must be a non-empty string.`);
+            return defaultValue;
+        }
+        return value;
+    }
+
+    stringList(key: string, value: unknown): string[] | undefined {
+        if (value === undefined) {
+            return undefined;
+        }
+        if (
+            !Array.isArray(value) ||
+            value.length === 0 ||
+            value.some((v) => typeof v !== "string" || v === "")
+        ) {
+            this.errors.push(`${key}: must be a non-empty list of strings.`);
+            return undefined;
+        }
+        return value;
+    }
+
+    optionalInteger(key: string, value: unknown, min = 0) {
+        if (value === undefined) {
+            return undefined;
+        }
+        return this.integer(key, value, min, min);
+    }
+
+    integer(key: string, value: unknown, defaultValue: number, min = 0) {
+        if (value === undefined) {
+            return defaultValue;
+        }
+        if (
+            typeof value !== "number" ||
+            !Number.isInteger(value) ||
+            value < min
+        ) {
+            this.errors.push(`${key}: must be an integer >= ${min}.`);
+            return defaultValue;
+        }
+        return value;
+    }
+
+    boolean(key: string, value: unknown, defaultValue: boolean) {
+        if (value === undefined) {
+            return defaultValue;
+        }
+        if (typeof value !== "boolean") {
+            this.errors.push(`${key}: must be true or false.`);
+            return defaultValue;
+        }
+        return value;
+    }
+
+    oneOf<T extends string>(
+        key: string,
+        value: unknown,
+        allowed: readonly T[],
+        defaultValue: T
+    ): T;
+    oneOf<T extends string>(
+        key: string,
+        value: unknown,
+        allowed: readonly T[]
+    ): T | undefined;
+    oneOf<T extends string>(
+        key: string,
+        value: unknown,
+        allowed: readonly T[],
+        defaultValue?: T
+    ) {
+        if (value === undefined) {
+            return defaultValue;
+        }
+        if (!allowed.includes(value as T)) {
+            this.errors.push(`${key}: must be one of ${allowed.join(", ")}.`);
+            return defaultValue;
+        }
+        return value as T;
+    }
+
+    storageQuantity(key: string, value: unknown, defaultValue: string) {
+        const quantity = this.string(key, value, defaultValue);
+        if (!storageQuantityRegex.test(quantity)) {
+            this.errors.push(
+                `${key}: "${quantity}" is not a valid storage quantity, e.g. 5Gi.`
+            );
+        }
+        return quantity;
+    }
+
+    quantity(key: string, value: unknown) {
+        const quantity = this.string(key, value);
+        if (quantity !== undefined && !quantityRegex.test(quantity)) {
+            this.errors.push(
+                `${key}: "${quantity}" is not a valid quantity, e.g. 250m or 512Mi.`
+            );
+        }
+        return quantity;
+    }
+
+    probe(key: string, value: unknown): ProbeConfig | undefined {
+        if (value === undefined) {
+            return undefined;
+        }
+        const raw = this.plainObject(key, value);
+        return {
+            path: this.string(`${key}.path`, raw.path),
+            port: this.optionalInteger(`${key}.port`, raw.port, 1),
+            initialDelaySeconds: this.optionalInteger(
+                `${key}.initialDelaySeconds`,
+                raw.initialDelaySeconds
+            ),
+            periodSeconds: this.optionalInteger(
+                `${key}.periodSeconds`,
+                raw.periodSeconds,
+                1
+            ),
+            timeoutSeconds: this.optionalInteger(
+                `${key}.timeoutSeconds`,
+                raw.timeoutSeconds,
+                1
+            ),
+            failureThreshold: this.optionalInteger(
+                `${key}.failureThreshold`,
+                raw.failureThreshold,
+                1
+            ),
+        };
+    }
+
+    resourceList(key: string, value: unknown): ResourceListConfig | undefined {
+        if (value === undefined) {
+            return undefined;
+        }
+        const raw = this.plainObject(key, value);
+        return {
+            cpu: this.quantity(`${key}.cpu`, raw.cpu),
+            memory: this.quantity(`${key}.memory`, raw.memory),
+        };
+    }
+
+    route(key: string, value: unknown): RouteConfig {
+        const raw = this.plainObject(key, value);
+        const name = this.string(`${key}.name`, raw.name, "");
+        if (!routeNameRegex.test(name)) {
+            this.errors.push(
+                `${key}.name: "${name}" must be a lowercase DNS label, e.g. webhooks.`
+            );
+        }
+        const path = this.string(`${key}.path`, raw.path, "");
+        if (!path.startsWith("/")) {
+            this.errors.push(`${key}.path: must start with /.`);
+        }
+
+        const route: RouteConfig = {
+            name,
+            path,
+            pathType: this.oneOf<RoutePathType>(
+                `${key}.pathType`,
+                raw.pathType,
+                ["Exact", "Prefix", "ImplementationSpecific"],
+                "Prefix"
+            ),
+            host: this.string(`${key}.host`, raw.host),
+            websocket: this.boolean(`${key}.websocket`, raw.websocket, false),
+            stickySessions: this.boolean(
+                `${key}.stickySessions`,
+                raw.stickySessions,
+                false
+            ),
+            bodySize: this.string(`${key}.bodySize`, raw.bodySize),
+        };
+        if (
+            route.bodySize !== undefined &&
+            !nginxSizeRegex.test(route.bodySize)
+        ) {
+            this.errors.push(
+                `${key}.bodySize: "${route.bodySize}" is not a valid size, e.g. 10m.`
+            );
+        }
+        if (raw.cache !== undefined) {
+            const rawCache = this.plainObject(`${key}.cache`, raw.cache);
+            route.cache = {
+                validity: this.string(
+                    `${key}.cache.validity`,
+                    rawCache.validity,
+                    "30m"
+                ),
+                maxAge: this.integer(
+                    `${key}.cache.maxAge`,
+                    rawCache.maxAge,
+                    30
+                ),
+            };
+            if (!nginxTimeRegex.test(route.cache.validity)) {
+                this.errors.push(
+                    `${key}.cache.validity: "${route.cache.validity}" is not a valid time, e.g. 30m.`
+                );
+            }
+        }
+        if (raw.timeouts !== undefined) {
+            const rawTimeouts = this.plainObject(
+                `${key}.timeouts`,
+                raw.timeouts
+            );
+            route.timeouts = {
+                connect: this.optionalInteger(
+                    `${key}.timeouts.connect`,
+                    rawTimeouts.connect,
+                    1
+                ),
+                read: this.optionalInteger(
+                    `${key}.timeouts.read`,
+                    rawTimeouts.read,
+                    1
+                ),
+                send: this.optionalInteger(
+                    `${key}.timeouts.send`,
+                    rawTimeouts.send,
+                    1
+                ),
+            };
+        }
+        return route;
+    }
+
+    botpressConfig(key: string, value: unknown): BotpressServerConfig {
+        const raw = this.plainObject(key, value);
+        const overrides = this.plainObject(`${key}.overrides`, raw.overrides);
+        // These are set from the secrets, with `pro` and `superAdmin`.
+        for (const reserved of ["pro", "superAdmins"]) {
+            if (reserved in overrides) {
+                this.errors.push(
+                    `${key}.overrides.${reserved}: is set with ${key}.pro and ${key}.superAdmin.`
+                );
+            }
+        }
+
+        const rawPro = this.plainObject(`${key}.pro`, raw.pro);
+        const botpressConfig: BotpressServerConfig = {
+            overrides,
+            pro: {
+                enabled: this.boolean(
+                    `${key}.pro.enabled`,
+                    rawPro.enabled,
+                    false
+                ),
+                licenseKey: this.config.getSecret("botpressLicenseKey"),
+            },
+        };
+        if (botpressConfig.pro.enabled && !botpressConfig.pro.licenseKey) {
+            this.errors.push(
+                `botpressLicenseKey: is required when ${key}.pro.enabled is set.`
+            );
+        }
+        if (raw.file !== undefined) {
+            botpressConfig.file = this.plainObject(`${key}.file`, raw.file);
+        }
+        if (raw.superAdmin !== undefined) {
+            const rawSuperAdmin = this.plainObject(
+                `${key}.superAdmin`,
+                raw.superAdmin
+            );
+            const email = this.string(
+                `${key}.superAdmin.email`,
+                rawSuperAdmin.email,
+                ""
+            );
+            if (!emailRegex.test(email)) {
+                this.errors.push(
+                    `${key}.superAdmin.email: "${email}" is not an email address.`
+                );
+            }
+            const password = this.config.getSecret("superAdminPassword");
+            if (!password) {
+                this.errors.push(
+                    `superAdminPassword: is required when ${key}.superAdmin is set.`
+                );
+            } else {
+                botpressConfig.superAdmin = { email, password };
+            }
+        }
+        return botpressConfig;
+    }
+
+    bot(key: string, value: unknown): BotConfig {
+        const raw = this.plainObject(key, value);
+        const bot: BotConfig = {
+            id: this.string(`${key}.id`, raw.id, ""),
+            archive: this.string(`${key}.archive`, raw.archive, ""),
+        };
+        if (!botIdRegex.test(bot.id)) {
+            this.errors.push(
+                `${key}.id: "${bot.id}" must only contain lowercase letters, digits, - and _.`
+            );
+        }
+        if (bot.archive && !fs.existsSync(bot.archive)) {
+            this.errors.push(`${key}.archive: ${bot.archive} doesn't exist.`);
+        }
+        return bot;
+    }
+
+    workspaceUser(key: string, value: unknown): WorkspaceUserConfig {
+        const raw = this.plainObject(key, value);
+        const email = this.string(`${key}.email`, raw.email, "");
+        if (!emailRegex.test(email)) {
+            this.errors.push(
+                `${key}.email: "${email}" is not an email address.`
+            );
+        }
+        return {
+            email,
+            role: this.string(`${key}.role`, raw.role, "dev"),
+            strategy: this.string(`${key}.strategy`, raw.strategy, "default"),
+        };
+    }
+
+    list<T>(
+        key: string,
+        value: unknown,
+        item: (key: string, value: unknown) => T
+    ): T[] {
+        if (value === undefined) {
+            return [];
+        }
+        if (!Array.isArray(value)) {
+            this.errors.push(`${key}: must be a list.`);
+            return [];
+        }
+        return value.map((v, i) => item(`${key}[${i}]`, v));
+    }
+
+    nodePool(key: string, value: unknown): NodePoolConfig {
+        const raw = this.plainObject(key, value);
+        const name = this.string(`${key}.name`, raw.name, "");
+        if (!routeNameRegex.test(name)) {
+            this.errors.push(
+                `${key}.name: "${name}" must be a lowercase DNS label, e.g. lang-server.`
+            );
+        }
+        const pool: NodePoolConfig = {
+            name,
+            size: this.string(`${key}.size`, raw.size, ""),
+            nodeCount: this.integer(`${key}.nodeCount`, raw.nodeCount, 1, 1),
+            labels: this.stringMap(`${key}.labels`, raw.labels),
+            taints: this.list(`${key}.taints`, raw.taints, (k, v) => {
+                const rawTaint = this.plainObject(k, v);
+                return {
+                    key: this.string(`${k}.key`, rawTaint.key, ""),
+                    value: this.string(`${k}.value`, rawTaint.value, ""),
+                    effect: this.oneOf<TaintEffect>(
+                        `${k}.effect`,
+                        rawTaint.effect,
+                        taintEffects,
+                        "NoSchedule"
+                    ),
+                };
+            }),
+        };
+        if (!pool.size) {
+            this.errors.push(`${key}.size: is required.`);
+        }
+        if (raw.autoScale !== undefined) {
+            const rawAutoScale = this.plainObject(
+                `${key}.autoScale`,
+                raw.autoScale
+            );
+            pool.autoScale = {
+                minNodes: this.integer(
+                    `${key}.autoScale.minNodes`,
+                    rawAutoScale.minNodes,
+                    1,
+                    1
+                ),
+                maxNodes: this.integer(
+                    `${key}.autoScale.maxNodes`,
+                    rawAutoScale.maxNodes,
+                    3,
+                    1
+                ),
+            };
+            if (pool.autoScale.minNodes > pool.autoScale.maxNodes) {
+                this.errors.push(
+                    `${key}.autoScale: minNodes must not be greater than maxNodes.`
+                );
+            }
+        }
+        return pool;
+    }
+
+    stringMap(key: string, value: unknown): Record<string, string> {
+        const raw = this.plainObject(key, value);
+        for (const [k, v] of Object.entries(raw)) {
+            if (typeof v !== "string") {
+                this.errors.push(`${key}.${k}: must be a string.`);
+            }
+        }
+        return raw;
+    }
+
+    toleration(key: string, value: unknown): TolerationConfig {
+        const raw = this.plainObject(key, value);
+        return {
+            key: this.string(`${key}.key`, raw.key),
+            operator: this.oneOf<TolerationConfig["operator"]>(
+                `${key}.operator`,
+                raw.operator,
+                ["Exists", "Equal"],
+                "Equal"
+            ),
+            value: this.string(`${key}.value`, raw.value),
+            effect: this.oneOf(`${key}.effect`, raw.effect, taintEffects),
+        };
+    }
+
+    /**
+     * Reads the scheduling settings of a workload, where `nodePool` is a
+     * shorthand for the node selector and tolerations of a pool.
+     */
+    scheduling(
+        key: string,
+        raw: Record<string, any>,
+        cluster: ClusterConfig
+    ): Pick<WorkloadConfig, "nodeSelector" | "tolerations" | "affinity"> {
+        const scheduling: Pick<
+            WorkloadConfig,
+            "nodeSelector" | "tolerations" | "affinity"
+        > = {};
+        if (raw.nodeSelector !== undefined) {
+            scheduling.nodeSelector = this.stringMap(
+                `${key}.nodeSelector`,
+                raw.nodeSelector
+            );
+        }
+        if (raw.tolerations !== undefined) {
+            scheduling.tolerations = this.list(
+                `${key}.tolerations`,
+                raw.tolerations,
+                (k, v) => this.toleration(k, v)
+            );
+        }
+        if (raw.affinity !== undefined) {
+            scheduling.affinity = this.plainObject(
+                `${key}.affinity`,
+                raw.affinity
+            );
+        }
+
+        const poolName = this.string(`${key}.nodePool`, raw.nodePool);
+        if (poolName === undefined) {
+            return scheduling;
+        }
+        const pool = cluster.nodePools.find((p) => p.name === poolName);
+        if (cluster.provider !== "doks" || !pool) {
+            this.errors.push(
+                `${key}.nodePool: ${poolName} is not one of cluster.nodePools.`
+            );
+            return scheduling;
+        }
+        scheduling.nodeSelector = {
+            ...scheduling.nodeSelector,
+            [doksNodePoolLabel]: pool.name,
+        };
+        scheduling.tolerations = [
+            ...(scheduling.tolerations || []),
+            ...pool.taints.map(
+                (taint): TolerationConfig => ({
+                    key: taint.key,
+                    operator: "Equal",
+                    value: taint.value,
+                    effect: taint.effect,
+                })
+            ),
+        ];
+        return scheduling;
+    }
+
+    workload(
+        key: string,
+        raw: Record<string, any>,
+        cluster: ClusterConfig
+    ): WorkloadConfig {
+        const workload: WorkloadConfig = this.scheduling(key, raw, cluster);
+        if (raw.probes !== undefined) {
+            const probes = this.plainObject(`${key}.probes`, raw.probes);
+            workload.probes = {
+                liveness: this.probe(`${key}.probes.liveness`, probes.liveness),
+                readiness: this.probe(
+                    `${key}.probes.readiness`,
+                    probes.readiness
+                ),
+                startup: this.probe(`${key}.probes.startup`, probes.startup),
+            };
+        }
+        if (raw.resources !== undefined) {
+            const resources = this.plainObject(
+                `${key}.resources`,
+                raw.resources
+            );
+            workload.resources = {
+                requests: this.resourceList(
+                    `${key}.resources.requests`,
+                    resources.requests
+                ),
+                limits: this.resourceList(
+                    `${key}.resources.limits`,
+                    resources.limits
+                ),
+            };
+        }
+        if (raw.autoscaling !== undefined) {
+            const rawAutoscaling = this.plainObject(
+                `${key}.autoscaling`,
+                raw.autoscaling
+            );
+            const autoscaling: AutoscalingConfig = {
+                minReplicas: this.integer(
+                    `${key}.autoscaling.minReplicas`,
+                    rawAutoscaling.minReplicas,
+                    1,
+                    1
+                ),
+                maxReplicas: this.integer(
+                    `${key}.autoscaling.maxReplicas`,
+                    rawAutoscaling.maxReplicas,
+                    3,
+                    1
+                ),
+                targetCpuUtilizationPercentage: this.integer(
+                    `${key}.autoscaling.targetCpuUtilizationPercentage`,
+                    rawAutoscaling.targetCpuUtilizationPercentage,
+                    80,
+                    1
+                ),
+            };
+            if (autoscaling.minReplicas > autoscaling.maxReplicas) {
+                this.errors.push(
+                    `${key}.autoscaling: minReplicas must not be greater than maxReplicas.`
+                );
+            }
+            workload.autoscaling = autoscaling;
+        }
+        return workload;
+    }
+
+    require(key: string) {
+        const value = this.config.get(key);
+        if (!value) {
+            this.errors.push(`${key}: is required.`);
+            return "";
+        }
+        return value;
+    }
+}
+
+/**
+ * Whether the main server runs in cluster mode, i.e. with (possibly) more
+ * than one replica.
+ * See https://botpress.com/docs/advanced/hosting#cluster-mode.
+ */
+export function isClusteredMainServer(
+    mainServer: Pick<MainServerConfig, "numReplicas" | "autoscaling">
+): boolean {
+    return (
+        mainServer.numReplicas > 1 ||
+        (mainServer.autoscaling?.maxReplicas ?? 1) > 1
+    );
+}
+
+/**
+ * Reads every tunable of the stack from the stack config, applies the
+ * defaults and validates them.
+ *
+ * All of the problems are reported in a single error so that they can be
+ * fixed in one go. Call this before registering any resource.
+ */
+export function loadStackConfig(
+    config: pulumi.Config = new pulumi.Config()
+): StackConfig {
+    const reader = new ConfigReader(config);
+    const regions = Object.values(digitalocean.Region);
+
+    const rawCluster = reader.object("cluster");
+    const cluster: ClusterConfig = {
+        provider: reader.oneOf<ClusterProviderKind>(
+            "cluster.provider",
+            rawCluster.provider,
+            ["doks", "kubeconfig", "render"],
+            "doks"
+        ),
+        // `doksVersion` is the key used before the structured config existed.
+        version: reader.string(
+            "cluster.version",
+            rawCluster.version,
+            config.get("doksVersion") || "1.21.5-do.0"
+        ),
+        region: reader.oneOf(
+            "cluster.region",
+            rawCluster.region,
+            regions,
+            digitalocean.Region.SFO2
+        ),
+        nodeSize: reader.string(
+            "cluster.nodeSize",
+            rawCluster.nodeSize,
+            digitalocean.DropletSlug.DropletS1VCPU2GB
+        ),
+        nodeCount: reader.integer(
+            "cluster.nodeCount",
+            rawCluster.nodeCount,
+            2,
+            1
+        ),
+        nodePools: reader.list(
+            "cluster.nodePools",
+            rawCluster.nodePools,
+            (key, value) => reader.nodePool(key, value)
+        ),
+        kubeContext: reader.string(
+            "cluster.kubeContext",
+            rawCluster.kubeContext
+        ),
+        kubeconfig: config.getSecret("kubeconfig"),
+        renderDirectory: reader.string(
+            "cluster.renderDirectory",
+            rawCluster.renderDirectory,
+            "rendered"
+        ),
+    };
+
+    const poolNames = cluster.nodePools.map((pool) => pool.name);
+    for (const name of new Set(poolNames)) {
+        if (name === "default-pool") {
+            reader.errors.push(
+                `cluster.nodePools: the name ${name} is reserved for the default node pool.`
+            );
+        } else if (poolNames.indexOf(name) !== poolNames.lastIndexOf(name)) {
+            reader.errors.push(
+                `cluster.nodePools: the name ${name} is used more than once.`
+            );
+        }
+    }
+    if (cluster.nodePools.length > 0 && cluster.provider !== "doks") {
+        reader.errors.push(
+            "cluster.nodePools: are only created with the doks provider."
+        );
+    }
+
+    const rawLangServer = reader.object("langServer");
+    const langServer: LangServerConfig = {
+        ...reader.workload("langServer", rawLangServer, cluster),
+        numReplicas: reader.integer(
+            "langServer.numReplicas",
+            rawLangServer.numReplicas,
+            1,
+            1
+        ),
+        storageSize: reader.storageQuantity(
+            "langServer.storageSize",
+            rawLangServer.storageSize,
+            "5Gi"
+        ),
+        languages: reader.stringList(
+            "langServer.languages",
+            rawLangServer.languages
+        ),
+        dimension: 100,
+        offline: reader.boolean(
+            "langServer.offline",
+            rawLangServer.offline,
+            false
+        ),
+        modelSource: reader.string(
+            "langServer.modelSource",
+            rawLangServer.modelSource
+        ),
+    };
+    if (rawLangServer.dimension !== undefined) {
+        if (![100, 300].includes(rawLangServer.dimension)) {
+            reader.errors.push(
+                "langServer.dimension: must be one of 100, 300."
+            );
+        } else {
+            langServer.dimension = rawLangServer.dimension;
+        }
+    }
+    if (rawLangServer.preseed !== undefined) {
+        const rawPreseed = reader.plainObject(
+            "langServer.preseed",
+            rawLangServer.preseed
+        );
+        const preseed: EmbeddingsPreseedConfig = {
+            image: reader.string(
+                "langServer.preseed.image",
+                rawPreseed.image,
+                "curlimages/curl:7.80.0"
+            ),
+            url: reader.string("langServer.preseed.url", rawPreseed.url),
+            archivePath: reader.string(
+                "langServer.preseed.archivePath",
+                rawPreseed.archivePath
+            ),
+        };
+        if (!preseed.url === !preseed.archivePath) {
+            reader.errors.push(
+                "langServer.preseed: exactly one of url and archivePath is required."
+            );
+        }
+        langServer.preseed = preseed;
+    }
+
+    const rawDuckling = reader.object("duckling");
+    const duckling: DucklingConfig = {
+        ...reader.workload("duckling", rawDuckling, cluster),
+        colocated: reader.boolean(
+            "duckling.colocated",
+            rawDuckling.colocated,
+            false
+        ),
+        numReplicas: reader.integer(
+            "duckling.numReplicas",
+            rawDuckling.numReplicas,
+            1,
+            1
+        ),
+    };
+
+    const rawMainServer = reader.object("mainServer");
+    const rawPool = reader.plainObject(
+        "mainServer.databasePool",
+        rawMainServer.databasePool
+    );
+    const mainServer: MainServerConfig = {
+        ...reader.workload("mainServer", rawMainServer, cluster),
+        numReplicas: reader.integer(
+            "mainServer.numReplicas",
+            rawMainServer.numReplicas,
+            1,
+            1
+        ),
+        storageSize: reader.storageQuantity(
+            "mainServer.storageSize",
+            rawMainServer.storageSize,
+            "1Gi"
+        ),
+        bpfsStorage: reader.oneOf<BpfsStorage>(
+            "mainServer.bpfsStorage",
+            rawMainServer.bpfsStorage,
+            ["disk", "database"],
+            "disk"
+        ),
+        databasePool: {
+            min: reader.integer("mainServer.databasePool.min", rawPool.min, 3),
+            max: reader.integer(
+                "mainServer.databasePool.max",
+                rawPool.max,
+                10,
+                1
+            ),
+        },
+        routes: [],
+        botpressConfig: { overrides: {}, pro: { enabled: false } },
+        bots: [],
+        workspaceUsers: [],
+    };
+    if (rawMainServer.routes !== undefined) {
+        if (!Array.isArray(rawMainServer.routes)) {
+            reader.errors.push("mainServer.routes: must be a list.");
+        } else {
+            mainServer.routes = rawMainServer.routes.map(
+                (value: unknown, i: number) =>
+                    reader.route(`mainServer.routes[${i}]`, value)
+            );
+        }
+    }
+    const routeNames = mainServer.routes.map((route) => route.name);
+    for (const name of new Set(routeNames)) {
+        if (routeNames.indexOf(name) !== routeNames.lastIndexOf(name)) {
+            reader.errors.push(
+                `mainServer.routes: the name ${name} is used more than once.`
+            );
+        }
+    }
+    mainServer.botpressConfig = reader.botpressConfig(
+        "mainServer.botpressConfig",
+        rawMainServer.botpressConfig
+    );
+    if (mainServer.botpressConfig.file && mainServer.bpfsStorage !== "disk") {
+        reader.errors.push(
+            "mainServer.botpressConfig.file: requires mainServer.bpfsStorage to be disk."
+        );
+    }
+    mainServer.bots = reader.list(
+        "mainServer.bots",
+        rawMainServer.bots,
+        (key, value) => reader.bot(key, value)
+    );
+    mainServer.workspaceUsers = reader.list(
+        "mainServer.workspaceUsers",
+        rawMainServer.workspaceUsers,
+        (key, value) => reader.workspaceUser(key, value)
+    );
+    const botIds = mainServer.bots.map((bot) => bot.id);
+    for (const id of new Set(botIds)) {
+        if (botIds.indexOf(id) !== botIds.lastIndexOf(id)) {
+            reader.errors.push(
+                `mainServer.bots: the ID ${id} is used more than once.`
+            );
+        }
+    }
+    for (const key of ["bots", "workspaceUsers"] as const) {
+        if (
+            mainServer[key].length > 0 &&
+            !mainServer.botpressConfig.superAdmin
+        ) {
+            reader.errors.push(
+                `mainServer.${key}: requires mainServer.botpressConfig.superAdmin, whose credentials manage them.`
+            );
+        }
+    }
+    if (mainServer.databasePool.min > mainServer.databasePool.max) {
+        reader.errors.push(
+            "mainServer.databasePool: min must not be greater than max."
+        );
+    }
+
+    // Redis is deployed along with a clustered server, so only its storage
+    // can be wrong.
+    if (
+        isClusteredMainServer(mainServer) &&
+        mainServer.bpfsStorage !== "database"
+    ) {
+        reader.errors.push(
+            mainServer.numReplicas > 1
+                ? "mainServer.numReplicas: more than 1 replica requires mainServer.bpfsStorage to be database."
+                : "mainServer.autoscaling.maxReplicas: more than 1 replica requires mainServer.bpfsStorage to be database."
+        );
+    }
+
+    const rawRedis = reader.object("redis");
+    const redis: RedisConfig = {
+        version: reader.string("redis.version", rawRedis.version, "6.2-alpine"),
+    };
+
+    const rawDatabase = reader.object("database");
+    const database: DatabaseConfig = {
+        provider: reader.oneOf<DatabaseProvider>(
+            "database.provider",
+            rawDatabase.provider,
+            ["managed-do", "external", "in-cluster"],
+            "managed-do"
+        ),
+        size: reader.oneOf(
+            "database.size",
+            rawDatabase.size,
+            Object.values(digitalocean.DatabaseSlug)
+        ),
+        version: reader.string("database.version", rawDatabase.version, "12"),
+        nodeCount: reader.integer(
+            "database.nodeCount",
+            rawDatabase.nodeCount,
+            2,
+            1
+        ),
+        region: reader.oneOf(
+            "database.region",
+            rawDatabase.region,
+            regions,
+            cluster.region
+        ),
+        connectionPoolSize: reader.integer(
+            "database.connectionPoolSize",
+            rawDatabase.connectionPoolSize,
+            10,
+            1
+        ),
+        storageSize: reader.storageQuantity(
+            "database.storageSize",
+            rawDatabase.storageSize,
+            "10Gi"
+        ),
+        url: config.getSecret("databaseUrl"),
+        caCert: config.getSecret("databaseCaCert"),
+    };
+    if (mainServer.bpfsStorage === "database") {
+        if (database.provider === "managed-do" && !database.size) {
+            reader.errors.push(
+                "database.size: is required when mainServer.bpfsStorage is database."
+            );
+        }
+        if (database.provider === "external" && !database.url) {
+            reader.errors.push(
+                "databaseUrl: is required when database.provider is external."
+            );
+        }
+    }
+
+    const customDomain = config.get("customDomain");
+
+    const rawIngress = reader.object("ingress");
+    const ingressBackend = reader.oneOf<IngressBackendKind>(
+        "ingress.backend",
+        rawIngress.backend,
+        ["nginx", "traefik", "load-balancer"],
+        "nginx"
+    );
+    const ingress: IngressConfig = {
+        backend: ingressBackend,
+        // `ingressControllerVersion` is the key of the nginx chart version
+        // used before the structured config existed.
+        version: reader.string(
+            "ingress.version",
+            rawIngress.version,
+            ingressBackend === "nginx"
+                ? config.get("ingressControllerVersion") || "4.0.13"
+                : "10.19.4"
+        ),
+        loadBalancerTimeoutMinutes: reader.integer(
+            "ingress.loadBalancerTimeoutMinutes",
+            rawIngress.loadBalancerTimeoutMinutes,
+            10,
+            1
+        ),
+        ip: reader.string("ingress.ip", rawIngress.ip),
+        hostname: reader.string("ingress.hostname", rawIngress.hostname),
+    };
+
+    // Nothing is created in the cloud when rendering, so the values that
+    // come from cloud resources must be set explicitly.
+    if (cluster.provider === "render") {
+        if (!ingress.ip && !ingress.hostname) {
+            reader.errors.push(
+                "ingress.ip: is required, or ingress.hostname, when cluster.provider is render."
+            );
+        }
+        if (
+            mainServer.bpfsStorage === "database" &&
+            database.provider === "managed-do"
+        ) {
+            reader.errors.push(
+                "database.provider: managed-do isn't supported when cluster.provider is render. Use external with the databaseUrl secret, or in-cluster."
+            );
+        }
+        for (const key of ["bots", "workspaceUsers"] as const) {
+            if (mainServer[key].length > 0) {
+                reader.errors.push(
+                    `mainServer.${key}: are managed through the admin API of a running server, which isn't reachable when cluster.provider is render.`
+                );
+            }
+        }
+    }
+
+    const rawTls = reader.object("tls");
+    const tls: TlsConfig = {
+        enabled: reader.boolean("tls.enabled", rawTls.enabled, false),
+        issuer: reader.oneOf<AcmeIssuer>(
+            "tls.issuer",
+            rawTls.issuer,
+            ["staging", "production"],
+            "staging"
+        ),
+        email: reader.string("tls.email", rawTls.email),
+        certManagerVersion: reader.string(
+            "tls.certManagerVersion",
+            rawTls.certManagerVersion,
+            "v1.6.1"
+        ),
+    };
+    if (tls.enabled && !customDomain) {
+        reader.errors.push("tls.enabled: requires customDomain to be set.");
+    }
+    if (tls.enabled && !tls.email) {
+        reader.errors.push("tls.email: is required when TLS is enabled.");
+    }
+    if (tls.enabled && ingress.backend === "load-balancer") {
+        reader.errors.push(
+            "tls.enabled: requires an ingress controller, i.e. ingress.backend nginx or traefik."
+        );
+    }
+    if (ingress.backend === "load-balancer") {
+        mainServer.routes
+            .filter((route) => route.host)
+            .forEach((route) =>
+                reader.errors.push(
+                    `mainServer.routes: the ${route.name} route can't have its own host with ingress.backend load-balancer.`
+                )
+            );
+    }
+
+    const rawBackup = reader.object("backup");
+    const backup: BackupConfig = {
+        enabled: reader.boolean("backup.enabled", rawBackup.enabled, false),
+        schedule: reader.string(
+            "backup.schedule",
+            rawBackup.schedule,
+            "0 3 * * *"
+        ),
+        endpoint: reader.string("backup.endpoint", rawBackup.endpoint),
+        bucket: reader.string("backup.bucket", rawBackup.bucket),
+        region: reader.string("backup.region", rawBackup.region, "us-east-1"),
+        prefix: reader.string("backup.prefix", rawBackup.prefix, "botpress"),
+        retentionDays: reader.integer(
+            "backup.retentionDays",
+            rawBackup.retentionDays,
+            7,
+            1
+        ),
+        rcloneVersion: reader.string(
+            "backup.rcloneVersion",
+            rawBackup.rcloneVersion,
+            "1.57"
+        ),
+        accessKeyId: config.getSecret("backupAccessKeyId"),
+        secretAccessKey: config.getSecret("backupSecretAccessKey"),
+    };
+    if (rawBackup.restore !== undefined) {
+        backup.restore = {};
+        for (const [service, archive] of Object.entries(
+            reader.plainObject("backup.restore", rawBackup.restore)
+        )) {
+            const key = `backup.restore.${service}`;
+            reader.oneOf(key, service, ["lang-server", "main-server"]);
+            backup.restore[service] = reader.string(key, archive) || "latest";
+        }
+    }
+    if (backup.enabled || backup.restore) {
+        if (!backup.endpoint) {
+            reader.errors.push("backup.endpoint: is required for backups.");
+        }
+        if (!backup.bucket) {
+            reader.errors.push("backup.bucket: is required for backups.");
+        }
+        if (!backup.accessKeyId || !backup.secretAccessKey) {
+            reader.errors.push(
+                "backupAccessKeyId, backupSecretAccessKey: are required for backups."
+            );
+        }
+    }
+
+    const rawUpgrade = reader.object("upgrade");
+    const rawSnapshot = reader.plainObject(
+        "upgrade.snapshot",
+        rawUpgrade.snapshot
+    );
+    const upgrade: UpgradeConfig = {
+        allowDowngrade: reader.boolean(
+            "upgrade.allowDowngrade",
+            rawUpgrade.allowDowngrade,
+            false
+        ),
+        snapshot: {
+            enabled: reader.boolean(
+                "upgrade.snapshot.enabled",
+                rawSnapshot.enabled,
+                false
+            ),
+            volumeSnapshotClass: reader.string(
+                "upgrade.snapshot.volumeSnapshotClass",
+                rawSnapshot.volumeSnapshotClass,
+                "do-block-storage"
+            ),
+        },
+    };
+    if (upgrade.snapshot.enabled && mainServer.bpfsStorage !== "disk") {
+        reader.errors.push(
+            "upgrade.snapshot.enabled: requires mainServer.bpfsStorage to be disk, since the database keeps the data otherwise."
+        );
+    }
+
+    const rawNetworkPolicies = reader.object("networkPolicies");
+    const rawExternalEgress = rawNetworkPolicies.externalEgress ?? [];
+    const networkPolicies: NetworkPoliciesConfig = {
+        enabled: reader.boolean(
+            "networkPolicies.enabled",
+            rawNetworkPolicies.enabled,
+            false
+        ),
+        externalEgress: [],
+    };
+    if (!Array.isArray(rawExternalEgress)) {
+        reader.errors.push("networkPolicies.externalEgress: must be a list.");
+    } else {
+        rawExternalEgress.forEach((value: unknown, i: number) => {
+            const key = `networkPolicies.externalEgress[${i}]`;
+            const rawRule = reader.plainObject(key, value);
+            const cidr = reader.string(`${key}.cidr`, rawRule.cidr);
+            if (cidr === undefined) {
+                reader.errors.push(`${key}.cidr: is required.`);
+                return;
+            }
+            let ports: number[] | undefined;
+            if (rawRule.ports !== undefined) {
+                ports = Array.isArray(rawRule.ports)
+                    ? rawRule.ports.map((port: unknown, j: number) =>
+                          reader.integer(`${key}.ports[${j}]`, port, 0, 1)
+                      )
+                    : [reader.integer(`${key}.ports`, rawRule.ports, 0, 1)];
+            }
+            networkPolicies.externalEgress.push({ cidr, ports });
+        });
+    }
+    // The hosts of the internet are only known by name, so their IPs must be
+    // allowed with `externalEgress`.
+    if (
+        networkPolicies.enabled &&
+        networkPolicies.externalEgress.length === 0
+    ) {
+        const needs: string[] = [];
+        if (
+            !langServer.offline &&
+            (!langServer.modelSource ||
+                /^https?:\/\//.test(langServer.modelSource))
+        ) {
+            needs.push("the language server downloads its models");
+        }
+        if (langServer.preseed?.url) {
+            needs.push("langServer.preseed.url is downloaded");
+        }
+        if (backup.enabled || backup.restore) {
+            needs.push("the backups are copied to and from backup.endpoint");
+        }
+        if (needs.length > 0) {
+            reader.errors.push(
+                `networkPolicies.externalEgress: is required when networkPolicies.enabled is set, since ${needs.join(
+                    ", and "
+                )}.`
+            );
+        }
+    }
+
+    const rawMonitoring = reader.object("monitoring");
+    const rawGrafana = reader.plainObject(
+        "monitoring.grafana",
+        rawMonitoring.grafana
+    );
+    const monitoring: MonitoringConfig = {
+        enabled: reader.boolean(
+            "monitoring.enabled",
+            rawMonitoring.enabled,
+            false
+        ),
+        chartVersion: reader.string(
+            "monitoring.chartVersion",
+            rawMonitoring.chartVersion,
+            "23.1.6"
+        ),
+        retention: reader.string(
+            "monitoring.retention",
+            rawMonitoring.retention,
+            "7d"
+        ),
+        storageSize: reader.storageQuantity(
+            "monitoring.storageSize",
+            rawMonitoring.storageSize,
+            "10Gi"
+        ),
+        grafana: {
+            enabled: reader.boolean(
+                "monitoring.grafana.enabled",
+                rawGrafana.enabled,
+                true
+            ),
+            hostname: reader.string(
+                "monitoring.grafana.hostname",
+                rawGrafana.hostname
+            ),
+        },
+    };
+    if (monitoring.grafana.hostname && ingress.backend === "load-balancer") {
+        reader.errors.push(
+            "monitoring.grafana.hostname: requires an ingress controller, i.e. ingress.backend nginx or traefik."
+        );
+    }
+    if (!durationRegex.test(monitoring.retention)) {
+        reader.errors.push(
+            `monitoring.retention: "${monitoring.retention}" is not a valid duration, e.g. 7d.`
+        );
+    }
+
+    const rawLogging = reader.object("logging");
+    const rawLoki = reader.plainObject("logging.loki", rawLogging.loki);
+    const rawHttpSink = reader.plainObject("logging.http", rawLogging.http);
+    const logging: LoggingConfig = {
+        enabled: reader.boolean("logging.enabled", rawLogging.enabled, false),
+        fluentBitVersion: reader.string(
+            "logging.fluentBitVersion",
+            rawLogging.fluentBitVersion,
+            "0.19.16"
+        ),
+        sink: reader.oneOf<LogSinkKind>(
+            "logging.sink",
+            rawLogging.sink,
+            ["loki", "http"],
+            "loki"
+        ),
+        loki: {
+            chartVersion: reader.string(
+                "logging.loki.chartVersion",
+                rawLoki.chartVersion,
+                "2.8.1"
+            ),
+            storageSize: reader.storageQuantity(
+                "logging.loki.storageSize",
+                rawLoki.storageSize,
+                "10Gi"
+            ),
+            retention: reader.string(
+                "logging.loki.retention",
+                rawLoki.retention,
+                "168h"
+            ),
+        },
+        http: {
+            url: reader.string("logging.http.url", rawHttpSink.url),
+            authorization: config.getSecret("loggingHttpAuthorization"),
+        },
+    };
+    if (!durationRegex.test(logging.loki.retention)) {
+        reader.errors.push(
+            `logging.loki.retention: "${logging.loki.retention}" is not a valid duration, e.g. 168h.`
+        );
+    }
+    if (logging.enabled && logging.sink === "http") {
+        if (!logging.http.url) {
+            reader.errors.push(
+                "logging.http.url: is required when logging.sink is http."
+            );
+        } else if (!/^https?:\/\/[^/]+/.test(logging.http.url)) {
+            reader.errors.push(
+                `logging.http.url: "${logging.http.url}" must be an http(s) URL.`
+            );
+        }
+    }
+
+    const stackConfig: StackConfig = {
+        botpressServerVersion: reader.require("botpressServerVersion"),
+        ingress,
+        customDomain,
+        cluster,
+        langServer,
+        duckling,
+        mainServer,
+        redis,
+        database,
+        tls,
+        backup,
+        networkPolicies,
+        upgrade,
+        monitoring,
+        logging,
+    };
+
+    if (reader.errors.length > 0) {
+        throw new pulumi.RunError(
+            `Invalid stack configuration:\n${reader.errors
+                .map((e) => `  - ${e}`)
+                .join("\n")}`
+        );
+    }
+    return stackConfig;
+}
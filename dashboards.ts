@@ -0,0 +1,172 @@
+/**
+ * The Grafana dashboards of the Botpress instances, as code. They're
+ * provisioned from a ConfigMap by the Grafana sidecar.
+ * https://grafana.com/docs/grafana/latest/dashboards/json-model/
+ */
+
+interface Panel {
+    title: string;
+    // The PromQL query, which can use the dashboard's variables.
+    expr: string;
+    legendFormat: string;
+    // https://grafana.com/docs/grafana/latest/panels/standard-options/#unit
+    unit: string;
+}
+
+interface Variable {
+    name: string;
+    query: string;
+    includeAll?: boolean;
+    default?: string;
+}
+
+// The Ingresses of the routes of the app services, i.e. the assets, socket.io
+// and root routes of the main servers, and the ones from the stack config.
+const BOTPRESS_INGRESSES = ".+-ingress";
+
+/**
+ * Requests, errors, latency and bandwidth per Ingress of the main servers,
+ * from the ingress-nginx metrics.
+ */
+export function ingressTrafficDashboard(): Record<string, any> {
+    const selector = 'namespace="$namespace", ingress=~"$ingress"';
+    return dashboard(
+        "botpress-ingress",
+        "Botpress / Ingress traffic",
+        [
+            {
+                name: "namespace",
+                query: "label_values(nginx_ingress_controller_requests, namespace)",
+                default: "apps",
+            },
+            {
+                name: "ingress",
+                query: `label_values(nginx_ingress_controller_requests{namespace="$namespace", ingress=~"${BOTPRESS_INGRESSES}"}, ingress)`,
+                includeAll: true,
+            },
+        ],
+        [
+            {
+                title: "Requests",
+                expr: `sum by (ingress) (rate(nginx_ingress_controller_requests{${selector}}[5m]))`,
+                legendFormat: "{{ingress}}",
+                unit: "reqps",
+            },
+            {
+                title: "5xx responses",
+                expr: `sum by (ingress) (rate(nginx_ingress_controller_requests{${selector}, status=~"5.."}[5m])) / sum by (ingress) (rate(nginx_ingress_controller_requests{${selector}}[5m]))`,
+                legendFormat: "{{ingress}}",
+                unit: "percentunit",
+            },
+            {
+                title: "Latency (p95)",
+                expr: `histogram_quantile(0.95, sum by (ingress, le) (rate(nginx_ingress_controller_request_duration_seconds_bucket{${selector}}[5m])))`,
+                legendFormat: "{{ingress}}",
+                unit: "s",
+            },
+            {
+                title: "Response bandwidth",
+                expr: `sum by (ingress) (rate(nginx_ingress_controller_response_size_sum{${selector}}[5m]))`,
+                legendFormat: "{{ingress}}",
+                unit: "Bps",
+            },
+        ]
+    );
+}
+
+/**
+ * CPU, memory, restarts and readiness of the pods of the app services,
+ * from the kubelet and kube-state-metrics.
+ */
+export function podHealthDashboard(): Record<string, any> {
+    const selector = 'namespace="$namespace", pod=~"$pod"';
+    return dashboard(
+        "botpress-pods",
+        "Botpress / Pods",
+        [
+            {
+                name: "namespace",
+                query: "label_values(kube_pod_info, namespace)",
+                default: "apps",
+            },
+            {
+                name: "pod",
+                query: 'label_values(kube_pod_info{namespace="$namespace"}, pod)',
+                includeAll: true,
+            },
+        ],
+        [
+            {
+                title: "CPU usage",
+                expr: `sum by (pod) (rate(container_cpu_usage_seconds_total{${selector}, container!=""}[5m]))`,
+                legendFormat: "{{pod}}",
+                unit: "short",
+            },
+            {
+                title: "Memory usage",
+                expr: `sum by (pod) (container_memory_working_set_bytes{${selector}, container!=""})`,
+                legendFormat: "{{pod}}",
+                unit: "bytes",
+            },
+            {
+                title: "Restarts (1h)",
+                expr: `sum by (pod) (increase(kube_pod_container_status_restarts_total{${selector}}[1h]))`,
+                legendFormat: "{{pod}}",
+                unit: "short",
+            },
+            {
+                title: "Not ready",
+                expr: `sum by (pod) (kube_pod_status_ready{${selector}, condition="false"})`,
+                legendFormat: "{{pod}}",
+                unit: "short",
+            },
+        ]
+    );
+}
+
+function dashboard(
+    uid: string,
+    title: string,
+    variables: Variable[],
+    panels: Panel[]
+): Record<string, any> {
+    return {
+        uid,
+        title,
+        tags: ["botpress"],
+        timezone: "browser",
+        schemaVersion: 30,
+        refresh: "30s",
+        time: { from: "now-6h", to: "now" },
+        templating: {
+            list: variables.map((variable) => ({
+                name: variable.name,
+                type: "query",
+                datasource: "Prometheus",
+                query: variable.query,
+                refresh: 2,
+                includeAll: variable.includeAll ?? false,
+                multi: variable.includeAll ?? false,
+                current: variable.includeAll
+                    ? { text: "All", value: "$__all" }
+                    : { text: variable.default, value: variable.default },
+            })),
+        },
+        // Two panels per row.
+        panels: panels.map((panel, i) => ({
+            id: i + 1,
+            type: "timeseries",
+            title: panel.title,
+            datasource: "Prometheus",
+            gridPos: { x: (i % 2) * 12, y: Math.floor(i / 2) * 8, w: 12, h: 8 },
+            fieldConfig: { defaults: { unit: panel.unit }, overrides: [] },
+            targets: [
+                {
+                    refId: "A",
+                    expr: panel.expr,
+                    legendFormat: panel.legendFormat,
+                },
+            ],
+        })),
+    };
+}
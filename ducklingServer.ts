@@ -0,0 +1,125 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as kx from "@pulumi/kubernetesx";
+import * as k8s from "@pulumi/kubernetes";
+
+import { AppService, AppServiceArgs } from "./appService";
+
+export interface DucklingServerArgs extends AppServiceArgs {}
+
+/**
+ * The `DucklingServer` is an app service that represents the Duckling server
+ * used by the NLU module of the main Botpress server to extract entities
+ * such as dates, amounts and distances.
+ * Duckling is stateless, so unlike the other app services it does not need
+ * any storage.
+ * See https://botpress.io/docs/advanced/hosting#running-multiple-containers.
+ */
+export class DucklingServer extends AppService {
+    public static readonly SERVER_PORT = 8000;
+
+    private ducklingServerArgs: DucklingServerArgs;
+
+    constructor(
+        args: DucklingServerArgs,
+        opts: pulumi.ComponentResourceOptions
+    ) {
+        super("duckling", args, opts);
+        this.ducklingServerArgs = args;
+
+        this.createDeployment();
+        this.createService();
+        this.createAutoscaler();
+
+        this.registerOutputs({});
+    }
+
+    private createDeployment() {
+        const podName = this.getResourceName("duckling");
+        const ducklingPodBuilder = new kx.PodBuilder({
+            ...this.getScheduling(),
+            containers: [
+                {
+                    name: podName,
+                    image: this.getBotpressImage(),
+                    ports: {
+                        http: DucklingServer.SERVER_PORT,
+                    },
+                    command: ["/bin/bash"],
+                    args: ["-c", "./duckling"],
+                    ...this.getContainerHealth({
+                        probes: {
+                            readiness: {
+                                path: "/",
+                                port: DucklingServer.SERVER_PORT,
+                                periodSeconds: 10,
+                            },
+                            liveness: {
+                                path: "/",
+                                port: DucklingServer.SERVER_PORT,
+                                periodSeconds: 20,
+                                failureThreshold: 3,
+                            },
+                        },
+                        resources: {
+                            requests: { cpu: "50m", memory: "128Mi" },
+                            limits: { memory: "256Mi" },
+                        },
+                    }),
+                },
+            ],
+        });
+        this.appDeployment = new kx.Deployment(
+            podName,
+            {
+                spec: this.withPodLabels(
+                    ducklingPodBuilder.asDeploymentSpec({
+                        replicas: this.getReplicas(),
+                    })
+                ),
+                metadata: {
+                    ...this.getBaseMetadata(),
+                    // Without the `name`, the service fails to find the pod to direct traffic to.
+                    name: podName,
+                    labels: {
+                        app: podName,
+                    },
+                },
+            },
+            this.getDeploymentOptions()
+        );
+    }
+
+    private createService() {
+        if (!this.appDeployment) {
+            throw new Error("Cannot create a service without a deployment.");
+        }
+
+        this.service = new k8s.core.v1.Service(
+            this.getResourceName("duckling-service"),
+            {
+                metadata: this.getBaseMetadata(),
+                spec: {
+                    selector: {
+                        app: this.appDeployment.metadata.name,
+                    },
+                    ports: [
+                        {
+                            name: "http",
+                            port: DucklingServer.SERVER_PORT,
+                            targetPort: DucklingServer.SERVER_PORT,
+                        },
+                    ],
+                },
+            },
+            { parent: this }
+        );
+    }
+
+    public getServiceEndpoint(): pulumi.Output<string> {
+        if (!this.service) {
+            throw new Error("Service is not yet initialized.");
+        }
+
+        return pulumi.interpolate`http://${this.service.metadata.name}.${this.ducklingServerArgs.namespace}:${DucklingServer.SERVER_PORT}`;
+    }
+}
@@ -0,0 +1,197 @@
+import { ConfigMap } from "@pulumi/pulumi/automation";
+import * as path from "path";
+
+/**
+ * The keys of the structured objects of the stack config, see
+ * `loadStackConfig` in `config.ts`.
+ */
+export type StackObjectKey =
+    | "backup"
+    | "cluster"
+    | "database"
+    | "duckling"
+    | "ingress"
+    | "langServer"
+    | "logging"
+    | "mainServer"
+    | "monitoring"
+    | "networkPolicies"
+    | "redis"
+    | "tls"
+    | "upgrade";
+
+/**
+ * The keys of the secrets of the stack config.
+ */
+export type StackSecretKey =
+    | "backupAccessKeyId"
+    | "backupSecretAccessKey"
+    | "botpressLicenseKey"
+    | "databaseCaCert"
+    | "databaseUrl"
+    | "kubeconfig"
+    | "loggingHttpAuthorization"
+    | "superAdminPassword";
+
+/**
+ * The plain config of an environment. The keys without a namespace are the
+ * ones of the `botpress` project, and the keys of the providers keep their
+ * namespace, e.g. `digitalocean:region`.
+ */
+export interface EnvironmentConfig
+    extends Partial<Record<StackObjectKey, Record<string, unknown>>> {
+    botpressServerVersion: string;
+    customDomain?: string;
+    // The keys used before the structured config existed.
+    doksVersion?: string;
+    ingressControllerVersion?: string;
+    [providerKey: `${string}:${string}`]: string | undefined;
+}
+
+/**
+ * An environment is a stack of the program, defined by a file of the
+ * `environments` directory named after it, e.g. `environments/dev.ts`, whose
+ * default export is an `Environment`.
+ */
+export interface Environment {
+    // Defaults to the name of the environment.
+    stackName?: string;
+    /**
+     * The URL of the Pulumi backend, e.g. `s3://my-bucket` or
+     * `https://api.pulumi.com`. Defaults to a local file backend.
+     */
+    backendUrl?: string;
+    config: EnvironmentConfig;
+    /**
+     * The secrets of the config, each read from the environment variable it
+     * maps to, so that they're never written to the environment file.
+     */
+    secrets?: {
+        [K in StackSecretKey | `${string}:${string}`]?: string;
+    };
+}
+
+export const environmentsDirectory = path.join(__dirname, "environments");
+
+/**
+ * Loads the environment of the given name from its file.
+ */
+export function loadEnvironment(
+    name: string,
+    directory: string = environmentsDirectory
+): Environment {
+    if (!/^[a-zA-Z0-9_.-]+$/.test(name)) {
+        throw new Error(`"${name}" is not a valid environment name.`);
+    }
+    const file = path.join(directory, name);
+    let environment: Environment | undefined;
+    try {
+        environment = require(file).default;
+    } catch (err) {
+        throw new Error(`Cannot load the environment ${name}: ${err}`);
+    }
+    if (!environment?.config) {
+        throw new Error(
+            `${file} must have an Environment as its default export.`
+        );
+    }
+    return environment;
+}
+
+/**
+ * Returns the fully qualified key of the stack config, e.g.
+ * `botpress:cluster`.
+ */
+function qualify(key: string): string {
+    return key.includes(":") ? key : `botpress:${key}`;
+}
+
+/**
+ * Returns the plain config of the environment as the stack config values.
+ * The structured objects are set as JSON, which is how `pulumi config set
+ * --path` stores them too.
+ */
+function getPlainConfig(environment: Environment): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const [key, value] of Object.entries(environment.config)) {
+        if (value !== undefined) {
+            values[qualify(key)] =
+                typeof value === "string" ? value : JSON.stringify(value);
+        }
+    }
+    return values;
+}
+
+/**
+ * Returns the stack config of the environment, with the secrets read from
+ * the environment variables. All of the missing variables are reported in
+ * one error.
+ */
+export function toStackConfig(
+    environment: Environment,
+    env: NodeJS.ProcessEnv = process.env
+): ConfigMap {
+    const config: ConfigMap = {};
+    for (const [key, value] of Object.entries(getPlainConfig(environment))) {
+        config[key] = { value };
+    }
+    const missing: string[] = [];
+    for (const [key, variable] of Object.entries(environment.secrets || {})) {
+        const value = variable ? env[variable] : undefined;
+        if (value === undefined) {
+            missing.push(`${variable} (${key})`);
+            continue;
+        }
+        config[qualify(key)] = { value, secret: true };
+    }
+    if (missing.length > 0) {
+        throw new Error(
+            `Missing the environment variables of the secrets: ${missing.join(
+                ", "
+            )}.`
+        );
+    }
+    return config;
+}
+
+export interface ConfigDiff {
+    // The keys only set in the second environment, with their values.
+    added: Record<string, string>;
+    // The keys only set in the first environment.
+    removed: string[];
+    changed: Record<string, { from: string; to: string }>;
+}
+
+/**
+ * Compares the config of two environments. The secrets are compared by the
+ * environment variables they're read from, so their values are never
+ * needed nor shown.
+ */
+export function diffConfig(from: Environment, to: Environment): ConfigDiff {
+    const describe = (environment: Environment) => {
+        const values = getPlainConfig(environment);
+        for (const [key, variable] of Object.entries(
+            environment.secrets || {}
+        )) {
+            values[qualify(key)] = `[secret from $${variable}]`;
+        }
+        return values;
+    };
+    const olds = describe(from);
+    const news = describe(to);
+
+    const diff: ConfigDiff = { added: {}, removed: [], changed: {} };
+    for (const key of Object.keys(olds).sort()) {
+        if (!(key in news)) {
+            diff.removed.push(key);
+        } else if (olds[key] !== news[key]) {
+            diff.changed[key] = { from: olds[key], to: news[key] };
+        }
+    }
+    for (const key of Object.keys(news).sort()) {
+        if (!(key in olds)) {
+            diff.added[key] = news[key];
+        }
+    }
+    return diff;
+}
@@ -0,0 +1,24 @@
+import { Environment } from "../environment";
+
+/**
+ * The development stack on a DOKS cluster, with the defaults of the stack
+ * config.
+ */
+const dev: Environment = {
+    config: {
+        botpressServerVersion: "v12_26_8",
+        cluster: {
+            provider: "doks",
+            version: "1.21.5-do.0",
+        },
+        ingress: {
+            backend: "nginx",
+            version: "4.0.13",
+        },
+    },
+    secrets: {
+        "digitalocean:token": "DIGITALOCEAN_TOKEN",
+    },
+};
+
+export default dev;
@@ -0,0 +1,27 @@
+import * as pulumi from "@pulumi/pulumi";
+
+import { IngressBackendKind } from "./config";
+import { IngressController, IngressControllerArgs } from "./ingressController";
+import { LoadBalancerIngressController } from "./loadBalancerIngressController";
+import { NginxIngressController } from "./nginxIngressController";
+import { TraefikIngressController } from "./traefikIngressController";
+
+/**
+ * Creates the ingress controller of the backend selected by the
+ * `ingress.backend` stack config.
+ */
+export function createIngressController(
+    name: string,
+    backend: IngressBackendKind,
+    args: IngressControllerArgs,
+    opts?: pulumi.ComponentResourceOptions
+): IngressController {
+    switch (backend) {
+        case "nginx":
+            return new NginxIngressController(name, args, opts);
+        case "traefik":
+            return new TraefikIngressController(name, args, opts);
+        case "load-balancer":
+            return new LoadBalancerIngressController(name, args, opts);
+    }
+}
@@ -0,0 +1,377 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as k8s from "@pulumi/kubernetes";
+
+import { RouteTable, getLegacyAppServiceUrn } from "./appService";
+import { IngressBackendKind, TlsConfig } from "./config";
+
+const acmeServers = {
+    staging: "https://acme-staging-v02.api.letsencrypt.org/directory",
+    production: "https://acme-v02.api.letsencrypt.org/directory",
+};
+
+/**
+ * The endpoint of the ingress controller's load balancer.
+ */
+export interface IngressEndpoint {
+    ip?: string;
+    hostname?: string;
+}
+
+export interface IngressControllerArgs {
+    // The ingress controller (Helm chart) version.
+    version: string;
+    /**
+     * When enabled, cert-manager is deployed alongside the ingress
+     * controller to issue Let's Encrypt certificates.
+     */
+    tls?: TlsConfig;
+    /**
+     * Expose the Prometheus metrics of the controller. Only the nginx
+     * backend supports them.
+     */
+    metrics?: boolean;
+    /**
+     * Write the access logs as JSON, so that the log collector can parse
+     * them into fields.
+     */
+    jsonLogs?: boolean;
+    /**
+     * How long to wait for the cloud to provision the load balancer of the
+     * controller. Defaults to 10 minutes.
+     */
+    loadBalancerTimeoutMinutes?: number;
+    /**
+     * The endpoint of the load balancer, when it's known in advance. It's
+     * used instead of the status of the `Service`, e.g. when the manifests
+     * are rendered rather than applied and the status never comes.
+     */
+    endpoint?: IngressEndpoint;
+    /**
+     * The resource the app services were parented to before they were
+     * grouped into instances (the DOKS cluster). When set, the controller
+     * adopts the resources a stack deployed back then has, which the first
+     * app service (the language server) created.
+     */
+    legacyParent?: pulumi.Resource;
+    /**
+     * The namespace of the app services, where the `load-balancer` backend
+     * creates its `Service`.
+     */
+    namespace?: pulumi.Input<string>;
+}
+
+/**
+ * The app service the routes of a `RouteTable` go to.
+ */
+export interface RouteTarget {
+    /**
+     * Returns the name of a resource of the routes, prefixed with the
+     * instance name.
+     */
+    getResourceName: (name: string) => string;
+    namespace: pulumi.Input<string>;
+    labels: pulumi.Input<Record<string, string>>;
+    serviceName: pulumi.Input<string>;
+    podSelector: pulumi.Input<Record<string, string>>;
+    // The resource the resources of the routes are parented to.
+    parent: pulumi.Resource;
+    /**
+     * Returns the aliases of a resource of the routes that was named `name`
+     * under the app service before the app services were grouped into
+     * instances.
+     */
+    getLegacyAliases: (name: string) => pulumi.Alias[];
+}
+
+/**
+ * IngressController is how the traffic from the outside (internet) gets
+ * into the cluster, through a `Service` of type `LoadBalancer`. It is shared
+ * by every Botpress instance in the cluster, which add their routes to it.
+ *
+ * The backends (see `ingressBackend.ts`) differ in how they turn the routes
+ * into resources, but all of them discover the endpoint of their load
+ * balancer the same way.
+ *
+ * If TLS is enabled, cert-manager is deployed as well, along with an ACME
+ * `ClusterIssuer` that app services can request certificates from.
+ */
+export abstract class IngressController extends pulumi.ComponentResource {
+    public readonly backend: IngressBackendKind;
+
+    protected args: IngressControllerArgs;
+
+    protected namespace: k8s.core.v1.Namespace | undefined;
+    protected ingressClass: k8s.networking.v1.IngressClass | undefined;
+    private clusterIssuer: k8s.apiextensions.CustomResource | undefined;
+
+    constructor(
+        backend: IngressBackendKind,
+        name: string,
+        args: IngressControllerArgs,
+        opts?: pulumi.ComponentResourceOptions
+    ) {
+        super("ingress-controller", name, undefined, opts);
+        this.backend = backend;
+        this.args = args;
+    }
+
+    /**
+     * Returns the namespace the ingress controller runs in.
+     */
+    getNamespace(): k8s.core.v1.Namespace {
+        if (!this.namespace) {
+            throw new Error("Namespace is not yet initialized.");
+        }
+        return this.namespace;
+    }
+
+    getIngressClass(): k8s.networking.v1.IngressClass {
+        if (!this.ingressClass) {
+            throw new Error("Ingress class is not yet initialized.");
+        }
+        return this.ingressClass;
+    }
+
+    /**
+     * Returns the ACME `ClusterIssuer`, if TLS is enabled.
+     */
+    getClusterIssuer(): k8s.apiextensions.CustomResource | undefined {
+        return this.clusterIssuer;
+    }
+
+    /**
+     * Returns the labels of the `Service` the Prometheus metrics of the
+     * controller are scraped from on its `metrics` port, if it exposes
+     * them.
+     */
+    getMetricsSelector(): Record<string, string> | undefined {
+        return undefined;
+    }
+
+    /**
+     * Creates the resources that route the traffic of the table to the
+     * target app service.
+     */
+    abstract createRoutes(
+        table: RouteTable,
+        target: RouteTarget
+    ): pulumi.Resource[];
+
+    /**
+     * Returns the endpoint of the controller's load balancer, once it's
+     * provisioned. Depending on the cloud, it has an IP, a hostname or both.
+     */
+    getEndpoint(): pulumi.Output<IngressEndpoint> {
+        if (this.args.endpoint) {
+            return pulumi.output(this.args.endpoint);
+        }
+        return this.getLoadBalancerService().apply((service) =>
+            pulumi
+                .all([
+                    service.metadata.namespace,
+                    service.metadata.name,
+                    service.status,
+                ])
+                .apply(([namespace, name, status]) => {
+                    const ingress = status?.loadBalancer?.ingress || [];
+                    const endpoint: IngressEndpoint = {
+                        ip: ingress.find((i) => i.ip)?.ip,
+                        hostname: ingress.find((i) => i.hostname)?.hostname,
+                    };
+                    if (!endpoint.ip && !endpoint.hostname) {
+                        throw new Error(
+                            `The load balancer of the ingress controller's Service ${namespace}/${name} has no IP or hostname. ` +
+                                `Check that the cluster can provision LoadBalancer services (kubectl -n ${namespace} describe service ${name}).`
+                        );
+                    }
+                    return endpoint;
+                })
+        );
+    }
+
+    /**
+     * Returns the IP or, if it has none, the hostname of the controller's
+     * load balancer.
+     */
+    getAddress(): pulumi.Output<string> {
+        return this.getEndpoint().apply(
+            (endpoint) => endpoint.ip || endpoint.hostname!
+        );
+    }
+
+    /**
+     * Returns the IP of the controller's load balancer. Fails if the load
+     * balancer only has a hostname, e.g. for DNS records that need an IP.
+     */
+    getIp(): pulumi.Output<string> {
+        return this.getEndpoint().apply((endpoint) => {
+            if (!endpoint.ip) {
+                throw new Error(
+                    `The load balancer of the ingress controller only has the hostname ${endpoint.hostname}, but an IP is required.`
+                );
+            }
+            return endpoint.ip;
+        });
+    }
+
+    /**
+     * Returns the `LoadBalancer` Service the traffic comes in through.
+     */
+    protected abstract getLoadBalancerService(): pulumi.Output<k8s.core.v1.Service>;
+
+    /**
+     * Finds the controller's `LoadBalancer` Service among the resources of
+     * its chart by its labels, rather than by the name the chart gives it.
+     */
+    protected findLoadBalancerService(
+        chart: k8s.helm.v3.Chart,
+        labels: Record<string, string>
+    ): pulumi.Output<k8s.core.v1.Service> {
+        return chart.resources.apply((resources) => {
+            const services = Object.values(resources).filter(
+                (r): r is k8s.core.v1.Service =>
+                    k8s.core.v1.Service.isInstance(r)
+            );
+            return pulumi
+                .all(
+                    services.map((service) =>
+                        pulumi.all([service.metadata.labels, service.spec.type])
+                    )
+                )
+                .apply((props) => {
+                    const controllers = services.filter((_, i) => {
+                        const [serviceLabels, type] = props[i];
+                        return (
+                            type === "LoadBalancer" &&
+                            Object.entries(labels).every(
+                                ([key, value]) => serviceLabels?.[key] === value
+                            )
+                        );
+                    });
+                    if (controllers.length !== 1) {
+                        throw new Error(
+                            `Expected the ${this.backend} chart to create one LoadBalancer Service for the controller, found ${controllers.length}.`
+                        );
+                    }
+                    return controllers[0];
+                });
+        });
+    }
+
+    /**
+     * Create the namespace the controller runs in.
+     */
+    protected createNamespace() {
+        this.namespace = new k8s.core.v1.Namespace(
+            "app-svcs",
+            {
+                metadata: {
+                    name: "app-svcs",
+                },
+            },
+            { parent: this, aliases: this.getLegacyAliases() }
+        );
+    }
+
+    /**
+     * Returns the aliases of a resource of the controller that was created
+     * by the language server, under the same name, if the controller adopts
+     * the resources of a stack deployed before the app services were grouped
+     * into instances (see `legacyParent`).
+     */
+    protected getLegacyAliases(): pulumi.Alias[] {
+        const legacyParent = this.args.legacyParent;
+        return legacyParent
+            ? [{ parent: getLegacyAppServiceUrn("lang-server", legacyParent) }]
+            : [];
+    }
+
+    /**
+     * Returns the timeouts of the `LoadBalancer` Services, which wait for
+     * the cloud to provision their load balancer.
+     */
+    protected getLoadBalancerTimeouts(): pulumi.CustomTimeouts {
+        const timeout = `${this.args.loadBalancerTimeoutMinutes ?? 10}m`;
+        return { create: timeout, update: timeout };
+    }
+
+    /**
+     * A chart transformation that applies the load balancer timeouts.
+     */
+    protected waitForLoadBalancer(
+        obj: any,
+        opts: pulumi.CustomResourceOptions
+    ) {
+        if (obj.kind === "Service" && obj.spec?.type === "LoadBalancer") {
+            opts.customTimeouts = this.getLoadBalancerTimeouts();
+        }
+    }
+
+    /**
+     * Deploy cert-manager using the Helm chart and create a `ClusterIssuer`
+     * that solves ACME HTTP-01 challenges through the ingress controller of
+     * the given class.
+     */
+    protected createCertManager(tls: TlsConfig, solverIngressClass: string) {
+        const certManagerNamespace = new k8s.core.v1.Namespace(
+            "cert-manager",
+            {
+                metadata: {
+                    name: "cert-manager",
+                },
+            },
+            { parent: this }
+        );
+
+        const certManagerChart = new k8s.helm.v3.Chart(
+            "cert-manager",
+            {
+                namespace: certManagerNamespace.metadata.name,
+                // https://artifacthub.io/packages/helm/cert-manager/cert-manager
+                chart: "cert-manager",
+                version: tls.certManagerVersion,
+                fetchOpts: {
+                    repo: "https://charts.jetstack.io",
+                },
+                values: {
+                    installCRDs: true,
+                },
+            },
+            { parent: this }
+        );
+
+        this.clusterIssuer = new k8s.apiextensions.CustomResource(
+            "letsencrypt-issuer",
+            {
+                apiVersion: "cert-manager.io/v1",
+                kind: "ClusterIssuer",
+                metadata: {
+                    name: `letsencrypt-${tls.issuer}`,
+                },
+                spec: {
+                    acme: {
+                        server: acmeServers[tls.issuer],
+                        email: tls.email,
+                        privateKeySecretRef: {
+                            name: `letsencrypt-${tls.issuer}-account-key`,
+                        },
+                        solvers: [
+                            {
+                                http01: {
+                                    ingress: {
+                                        class: solverIngressClass,
+                                    },
+                                },
+                            },
+                        ],
+                    },
+                },
+            },
+            {
+                parent: this,
+                // The CRDs are installed by the chart.
+                dependsOn: certManagerChart.ready,
+            }
+        );
+    }
+}
@@ -3,8 +3,33 @@ import * as kx from "@pulumi/kubernetesx";
 import * as k8s from "@pulumi/kubernetes";
 
 import { AppService, AppServiceArgs } from "./appService";
+import { EmbeddingDimension, EmbeddingsPreseedConfig } from "./config";
 
-export interface LangServerArgs extends AppServiceArgs {}
+export interface LangServerArgs extends AppServiceArgs {
+    /**
+     * The languages to serve, e.g. `["en", "fr"]`. Only the models of these
+     * languages are pre-seeded. All of them if not set.
+     */
+    languages?: string[];
+    /**
+     * The dimension of the embeddings. Defaults to 100.
+     */
+    dimension?: EmbeddingDimension;
+    /**
+     * When set, the language server doesn't download any model and only
+     * serves the ones on its volume.
+     */
+    offline?: boolean;
+    /**
+     * The URL or path of the metadata file listing the models to download.
+     */
+    modelSource?: string;
+    /**
+     * When set, an init container extracts an archive of the embeddings
+     * onto the volume before the language server starts.
+     */
+    preseed?: EmbeddingsPreseedConfig;
+}
 
 /**
  * The `LangServer` is an app service that represents the Botpress language server
@@ -13,6 +38,7 @@ export interface LangServerArgs extends AppServiceArgs {}
  */
 export class LangServer extends AppService {
     public static readonly SERVER_PORT = 3100;
+    private static readonly EMBEDDINGS_DIR = "/botpress/data/embeddings";
 
     private langServerArgs: LangServerArgs;
 
@@ -20,8 +46,10 @@ export class LangServer extends AppService {
         super("lang-server", args, opts);
         this.langServerArgs = args;
 
+        this.createBackup();
         this.createDeployment();
         this.createService();
+        this.createAutoscaler();
 
         this.registerOutputs({});
     }
@@ -33,30 +61,67 @@ export class LangServer extends AppService {
             );
         }
 
-        const podName = "botpress-lang-server";
+        // The archive is restored before the embeddings are pre-seeded.
+        const initContainers = this.getRestoreContainers();
+        const preseed = this.langServerArgs.preseed;
+        if (preseed) {
+            initContainers.push(this.getPreseedContainer(preseed, this.pvc));
+        }
+        const podName = this.getResourceName("lang-server");
         const bpLangServerPodBuilder = new kx.PodBuilder({
+            ...this.getScheduling(),
+            initContainers:
+                initContainers.length > 0 ? initContainers : undefined,
             containers: [
                 {
                     name: podName,
-                    image: `botpress/server:${this.botpressServerVersion}`,
+                    image: this.getBotpressImage(),
                     ports: {
                         http: LangServer.SERVER_PORT,
                     },
                     command: ["/bin/bash"],
-                    args: [
-                        "-c",
-                        "./bp lang --langDir /botpress/data/embeddings",
-                    ],
+                    args: ["-c", this.getLangServerCommand()],
                     volumeMounts: [this.pvc.mount("/botpress/data")],
+                    ...this.getContainerHealth({
+                        probes: {
+                            // The language server downloads and loads the
+                            // embeddings before it starts listening, which
+                            // can take several minutes on a fresh volume.
+                            startup: {
+                                path: "/info",
+                                port: LangServer.SERVER_PORT,
+                                periodSeconds: 10,
+                                failureThreshold: 90,
+                            },
+                            readiness: {
+                                path: "/info",
+                                port: LangServer.SERVER_PORT,
+                                periodSeconds: 10,
+                            },
+                            liveness: {
+                                path: "/info",
+                                port: LangServer.SERVER_PORT,
+                                periodSeconds: 20,
+                                failureThreshold: 3,
+                            },
+                        },
+                        resources: {
+                            requests: { cpu: "100m", memory: "1Gi" },
+                            limits: { memory: "1536Mi" },
+                        },
+                    }),
                 },
             ],
         });
         this.appDeployment = new kx.Deployment(
-            "botpress-lang-server",
+            podName,
             {
-                spec: bpLangServerPodBuilder.asDeploymentSpec({
-                    replicas: this.langServerArgs.numReplicas,
-                }),
+                spec: this.withPodLabels(
+                    bpLangServerPodBuilder.asDeploymentSpec({
+                        replicas: this.getReplicas(),
+                        strategy: this.getDeploymentStrategy(),
+                    })
+                ),
                 metadata: {
                     ...this.getBaseMetadata(),
                     // Without the `name`, the service fails to find the pod to direct traffic to.
@@ -66,17 +131,115 @@ export class LangServer extends AppService {
                     },
                 },
             },
-            { parent: this }
+            this.getDeploymentOptions("botpress-lang-server")
         );
     }
 
+    /**
+     * Returns the command line of the language server.
+     * See `./bp lang --help` for the options.
+     */
+    private getLangServerCommand(): string {
+        const args = this.langServerArgs;
+        const command = ["./bp lang", `--langDir ${LangServer.EMBEDDINGS_DIR}`];
+        // 100 is the language server's default.
+        if (args.dimension && args.dimension !== 100) {
+            command.push(`--dim ${args.dimension}`);
+        }
+        if (args.offline) {
+            command.push("--offline");
+        }
+        if (args.modelSource) {
+            command.push(`--metadataLocation '${args.modelSource}'`);
+        }
+        return command.join(" ");
+    }
+
+    /**
+     * Returns the init container that extracts the archive of the embeddings
+     * onto the volume. Only the models of the configured languages and
+     * dimension are kept.
+     *
+     * The archive is only extracted again when the archive, the languages
+     * or the dimension change.
+     */
+    private getPreseedContainer(
+        preseed: EmbeddingsPreseedConfig,
+        pvc: kx.PersistentVolumeClaim
+    ): kx.types.Container {
+        const script = [
+            "set -eu",
+            'fingerprint=$(echo "${ARCHIVE_URL:-$ARCHIVE_PATH} $LANGUAGES $DIM" | md5sum | cut -d " " -f 1)',
+            'marker="$EMBEDDINGS_DIR/.preseeded"',
+            'if [ "$(cat "$marker" 2>/dev/null)" = "$fingerprint" ]; then',
+            '    echo "The embeddings are already pre-seeded."',
+            "    exit 0",
+            "fi",
+            // Extract onto the volume since the archive can be several GBs.
+            'staging="$EMBEDDINGS_DIR/.preseed"',
+            'rm -rf "$staging" && mkdir -p "$staging"',
+            'if [ -n "${ARCHIVE_URL:-}" ]; then',
+            '    curl -fsSL "$ARCHIVE_URL" | tar xzf - -C "$staging"',
+            "else",
+            '    tar xzf "$ARCHIVE_PATH" -C "$staging"',
+            "fi",
+            'find "$staging" -type f | while read -r file; do',
+            '    name=$(basename "$file")',
+            '    case "$name" in *.bin) case "$name" in *".$DIM.bin") ;; *) continue ;; esac ;; esac',
+            "    keep=${LANGUAGES:+no}",
+            "    for lang in $LANGUAGES; do",
+            '        case "$name" in *".$lang."*) keep=yes ;; esac',
+            "    done",
+            '    if [ "${keep:-yes}" = yes ]; then',
+            '        mv "$file" "$EMBEDDINGS_DIR/$name"',
+            "    fi",
+            "done",
+            'rm -rf "$staging"',
+            'echo "$fingerprint" > "$marker"',
+        ].join("\n");
+
+        // The URL of the archive is typically pre-signed, so it's kept secret.
+        const archiveEnv = preseed.url
+            ? this.createSecretEnv({ ARCHIVE_URL: preseed.url })
+            : [];
+
+        return {
+            name: "preseed-embeddings",
+            image: preseed.image,
+            command: ["/bin/sh", "-c", script],
+            env: [
+                ...archiveEnv,
+                { name: "ARCHIVE_PATH", value: preseed.archivePath || "" },
+                {
+                    name: "EMBEDDINGS_DIR",
+                    value: LangServer.EMBEDDINGS_DIR,
+                },
+                {
+                    name: "LANGUAGES",
+                    value: (this.langServerArgs.languages || []).join(" "),
+                },
+                {
+                    name: "DIM",
+                    value: `${this.langServerArgs.dimension || 100}`,
+                },
+            ],
+            // The curl image runs as an unprivileged user, who can't write
+            // to the volume.
+            securityContext: { runAsUser: 0 },
+            // The volume itself is added to the pod by the main container's mount.
+            volumeMounts: [
+                { name: pvc.metadata.name, mountPath: "/botpress/data" },
+            ],
+        };
+    }
+
     private createService() {
         if (!this.appDeployment) {
             throw new Error("Cannot create a service without a deployment.");
         }
 
         this.service = new k8s.core.v1.Service(
-            "botpress-lang-server-service",
+            this.getResourceName("lang-server-service"),
             {
                 metadata: this.getBaseMetadata(),
                 spec: {
@@ -92,7 +255,10 @@ export class LangServer extends AppService {
                     ],
                 },
             },
-            { parent: this }
+            {
+                parent: this,
+                aliases: this.getLegacyAliases("botpress-lang-server-service"),
+            }
         );
     }
 
@@ -0,0 +1,125 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as k8s from "@pulumi/kubernetes";
+
+import { RouteTable } from "./appService";
+import {
+    IngressController,
+    IngressControllerArgs,
+    RouteTarget,
+} from "./ingressController";
+
+/**
+ * LoadBalancerIngressController exposes the main server with its own
+ * `Service` of type `LoadBalancer`, without an ingress controller. It's the
+ * cheapest way to serve a small single-bot stack.
+ *
+ * The load balancer forwards the TCP connections as is, so websockets work,
+ * and the sticky sessions pin each client IP to a pod. There is no TLS,
+ * routing by host, caching, body size limit or timeout though, so the
+ * routes are only checked.
+ */
+export class LoadBalancerIngressController extends IngressController {
+    /**
+     * The labels of the pods the load balancer forwards the traffic to,
+     * i.e. the main server's (see `AppService.getPodLabels`).
+     */
+    static readonly POD_SELECTOR = {
+        "app.kubernetes.io/part-of": "botpress",
+        "app.kubernetes.io/component": "main-server",
+    };
+
+    private service: k8s.core.v1.Service;
+    // Whether the routes of the main server were checked.
+    private routed = false;
+
+    constructor(
+        name: string,
+        args: IngressControllerArgs,
+        opts?: pulumi.ComponentResourceOptions
+    ) {
+        super("load-balancer", name, args, opts);
+
+        if (args.tls?.enabled) {
+            throw new Error(
+                "The load-balancer ingress backend doesn't support TLS, which needs an ingress controller."
+            );
+        }
+        if (!args.namespace) {
+            throw new Error(
+                "The load-balancer ingress backend needs the namespace of the app services."
+            );
+        }
+
+        // The Service is created up front, so that its endpoint resolves
+        // whether or not the main server is routed yet.
+        this.service = new k8s.core.v1.Service(
+            `${name}-load-balancer`,
+            {
+                metadata: {
+                    name: `${name}-load-balancer`,
+                    namespace: args.namespace,
+                },
+                spec: {
+                    type: "LoadBalancer",
+                    selector: LoadBalancerIngressController.POD_SELECTOR,
+                    ports: [
+                        {
+                            name: "http",
+                            port: 80,
+                            // The named port of the main server's container.
+                            targetPort: "http",
+                        },
+                    ],
+                    sessionAffinity: "ClientIP",
+                },
+            },
+            { parent: this, customTimeouts: this.getLoadBalancerTimeouts() }
+        );
+
+        this.registerOutputs({});
+    }
+
+    getNamespace(): k8s.core.v1.Namespace {
+        throw new Error("The load-balancer ingress backend has no namespace.");
+    }
+
+    getIngressClass(): k8s.networking.v1.IngressClass {
+        throw new Error(
+            "The load-balancer ingress backend has no ingress class."
+        );
+    }
+
+    /**
+     * Checks the routes of the app service the load balancer forwards the
+     * traffic to. The routes' paths and settings are ignored, which is only
+     * worth a warning for the configured routes: the default ones work
+     * without their settings.
+     */
+    createRoutes(table: RouteTable, target: RouteTarget): pulumi.Resource[] {
+        if (this.routed) {
+            throw new pulumi.RunError(
+                "ingress.backend: load-balancer can only expose a single main server, i.e. a single instance. Use the nginx or traefik backend to route more."
+            );
+        }
+        this.routed = true;
+
+        const ignored = table.routes.filter(
+            (route) =>
+                !table.defaultRoutes?.includes(route.name) &&
+                (route.host || route.cache || route.bodySize || route.timeouts)
+        );
+        if (ignored.length > 0) {
+            pulumi.log.warn(
+                `The load-balancer ingress backend ignores the host, cache, body size and timeouts of the ${ignored
+                    .map((route) => route.name)
+                    .join(", ")} routes.`,
+                target.parent
+            );
+        }
+        return [this.service];
+    }
+
+    protected getLoadBalancerService(): pulumi.Output<k8s.core.v1.Service> {
+        return pulumi.output(this.service);
+    }
+}
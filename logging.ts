@@ -0,0 +1,289 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as k8s from "@pulumi/kubernetes";
+
+import { HttpLogSinkConfig, LogSinkKind, LokiConfig } from "./config";
+
+export interface LoggingArgs {
+    // The fluent-bit Helm chart version.
+    fluentBitVersion: string;
+    sink: LogSinkKind;
+    loki: LokiConfig;
+    http: HttpLogSinkConfig;
+    /**
+     * The namespaces whose pods' logs are collected, i.e. the ones of the
+     * Botpress instances and of the ingress controller.
+     */
+    namespaces: pulumi.Input<string>[];
+}
+
+// Sets the `component` of the logs of the Botpress pods to their app service,
+// and the one of the ingress controller's logs to `ingress`.
+const componentScript = `
+function set_component(tag, timestamp, record)
+    local kubernetes = record["kubernetes"]
+    if kubernetes == nil or kubernetes["labels"] == nil then
+        return 0, timestamp, record
+    end
+
+    local labels = kubernetes["labels"]
+    local name = labels["app.kubernetes.io/name"]
+    if name == "ingress-nginx" or name == "traefik" then
+        record["component"] = "ingress"
+    elseif labels["app.kubernetes.io/part-of"] == "botpress" then
+        record["component"] = labels["app.kubernetes.io/component"]
+    else
+        return 0, timestamp, record
+    end
+    return 2, timestamp, record
+end
+`;
+
+/**
+ * Logging collects the logs of the Botpress pods and of the ingress
+ * controller with a Fluent Bit `DaemonSet`, and ships them to Loki or to an
+ * HTTP endpoint. Every log is labeled with its `component`: the app service
+ * (e.g. `lang-server` or `main-server`), or `ingress`.
+ *
+ * With the `loki` sink, a single Loki server is deployed into the `logging`
+ * namespace using the grafana/loki Helm chart.
+ */
+export class Logging extends pulumi.ComponentResource {
+    private static readonly LOKI_PORT = 3100;
+
+    private args: LoggingArgs;
+
+    private namespace: k8s.core.v1.Namespace | undefined;
+    private loki: k8s.helm.v3.Chart | undefined;
+
+    constructor(
+        name: string,
+        args: LoggingArgs,
+        opts?: pulumi.ComponentResourceOptions
+    ) {
+        super("logging", name, undefined, opts);
+        this.args = args;
+
+        this.namespace = new k8s.core.v1.Namespace(
+            "logging",
+            {
+                metadata: {
+                    name: "logging",
+                },
+            },
+            { parent: this }
+        );
+
+        if (args.sink === "loki") {
+            this.createLoki();
+        }
+        this.createFluentBit();
+
+        this.registerOutputs({});
+    }
+
+    getNamespace(): k8s.core.v1.Namespace {
+        if (!this.namespace) {
+            throw new Error("Namespace is not yet initialized.");
+        }
+        return this.namespace;
+    }
+
+    /**
+     * Returns the URL of the Loki server, if the logs are shipped to Loki.
+     */
+    getLokiUrl(): pulumi.Output<string> | undefined {
+        if (!this.loki) {
+            return undefined;
+        }
+        return pulumi.interpolate`http://loki.${
+            this.getNamespace().metadata.name
+        }.svc.cluster.local:${Logging.LOKI_PORT}`;
+    }
+
+    /**
+     * Deploy a single Loki server, which keeps the logs on its own PVC.
+     */
+    private createLoki() {
+        this.loki = new k8s.helm.v3.Chart(
+            "loki",
+            {
+                namespace: this.getNamespace().metadata.name,
+                // https://artifacthub.io/packages/helm/grafana/loki
+                chart: "loki",
+                version: this.args.loki.chartVersion,
+                fetchOpts: {
+                    repo: "https://grafana.github.io/helm-charts",
+                },
+                values: {
+                    fullnameOverride: "loki",
+                    persistence: {
+                        enabled: true,
+                        accessModes: ["ReadWriteOnce"],
+                        size: this.args.loki.storageSize,
+                    },
+                    config: {
+                        // The compactor deletes the logs past the retention.
+                        compactor: {
+                            working_directory: "/data/loki/compactor",
+                            shared_store: "filesystem",
+                            retention_enabled: true,
+                        },
+                        limits_config: {
+                            retention_period: this.args.loki.retention,
+                        },
+                    },
+                },
+            },
+            { parent: this }
+        );
+    }
+
+    /**
+     * Deploy Fluent Bit as a `DaemonSet`, which tails the log files of the
+     * containers on every node.
+     */
+    private createFluentBit() {
+        const env: k8s.types.input.core.v1.EnvVar[] = [];
+        if (this.args.sink === "http" && this.args.http.authorization) {
+            const secret = new k8s.core.v1.Secret(
+                "fluent-bit-http-sink",
+                {
+                    metadata: {
+                        name: "fluent-bit-http-sink",
+                        namespace: this.getNamespace().metadata.name,
+                    },
+                    stringData: {
+                        authorization: this.args.http.authorization,
+                    },
+                },
+                { parent: this }
+            );
+            env.push({
+                name: "HTTP_SINK_AUTHORIZATION",
+                valueFrom: {
+                    secretKeyRef: {
+                        name: secret.metadata.name,
+                        key: "authorization",
+                    },
+                },
+            });
+        }
+
+        // The kubelet names the log files `<pod>_<namespace>_<container>-<id>.log`.
+        const paths = pulumi
+            .all(this.args.namespaces)
+            .apply((namespaces) =>
+                namespaces
+                    .map((ns) => `/var/log/containers/*_${ns}_*.log`)
+                    .join(",")
+            );
+
+        new k8s.helm.v3.Chart(
+            "fluent-bit",
+            {
+                namespace: this.getNamespace().metadata.name,
+                // https://artifacthub.io/packages/helm/fluent/fluent-bit
+                chart: "fluent-bit",
+                version: this.args.fluentBitVersion,
+                fetchOpts: {
+                    repo: "https://fluent.github.io/helm-charts",
+                },
+                values: {
+                    env,
+                    // Mounted into `/fluent-bit/scripts/`.
+                    luaScripts: { "component.lua": componentScript },
+                    config: {
+                        inputs: section("INPUT", {
+                            Name: "tail",
+                            Path: paths,
+                            "multiline.parser": "docker, cri",
+                            Tag: "kube.*",
+                            Mem_Buf_Limit: "5MB",
+                            Skip_Long_Lines: "On",
+                        }),
+                        filters: joinSections([
+                            // Adds the pod's metadata, and parses the JSON
+                            // logs (e.g. the ingress access logs) into fields.
+                            section("FILTER", {
+                                Name: "kubernetes",
+                                Match: "kube.*",
+                                Merge_Log: "On",
+                                Keep_Log: "Off",
+                                "K8S-Logging.Parser": "On",
+                                "K8S-Logging.Exclude": "On",
+                            }),
+                            section("FILTER", {
+                                Name: "lua",
+                                Match: "kube.*",
+                                script: "/fluent-bit/scripts/component.lua",
+                                call: "set_component",
+                            }),
+                        ]),
+                        outputs: this.getOutput(),
+                    },
+                },
+            },
+            { parent: this, dependsOn: this.loki ? [this.loki] : [] }
+        );
+    }
+
+    private getOutput(): pulumi.Output<string> {
+        if (this.args.sink === "loki") {
+            return section("OUTPUT", {
+                Name: "loki",
+                Match: "kube.*",
+                Host: pulumi.interpolate`loki.${
+                    this.getNamespace().metadata.name
+                }.svc.cluster.local`,
+                Port: `${Logging.LOKI_PORT}`,
+                Labels: "job=fluent-bit, component=$component, namespace=$kubernetes['namespace_name']",
+                Line_Format: "json",
+            });
+        }
+
+        const url = new URL(this.args.http.url!);
+        const tls = url.protocol === "https:";
+        return section("OUTPUT", {
+            Name: "http",
+            Match: "kube.*",
+            Host: url.hostname,
+            Port: url.port || (tls ? "443" : "80"),
+            URI: `${url.pathname}${url.search}`,
+            Format: "json_lines",
+            Json_date_key: "time",
+            Json_date_format: "iso8601",
+            tls: tls ? "On" : "Off",
+            // Fluent Bit reads the variable from the container's env.
+            ...(this.args.http.authorization
+                ? { Header: "Authorization ${HTTP_SINK_AUTHORIZATION}" }
+                : {}),
+        });
+    }
+}
+
+/**
+ * Returns a section of the Fluent Bit configuration.
+ * https://docs.fluentbit.io/manual/administration/configuring-fluent-bit/classic-mode/format-schema
+ */
+function section(
+    name: string,
+    entries: Record<string, pulumi.Input<string>>
+): pulumi.Output<string> {
+    return pulumi
+        .all(entries)
+        .apply((values) =>
+            [
+                `[${name}]`,
+                ...Object.entries(values).map(
+                    ([key, value]) => `    ${key} ${value}`
+                ),
+                "",
+            ].join("\n")
+        );
+}
+
+function joinSections(
+    sections: pulumi.Output<string>[]
+): pulumi.Output<string> {
+    return pulumi.all(sections).apply((s) => s.join("\n"));
+}
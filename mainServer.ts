@@ -5,86 +5,295 @@ import * as k8s from "@pulumi/kubernetes";
 import * as fs from "fs";
 
 import { AppService, AppServiceArgs } from "./appService";
+import { BotpressBot, BotpressWorkspaceUser } from "./botpressAdmin";
+import { IngressController } from "./ingressController";
+import {
+    BotConfig,
+    BotpressServerConfig,
+    BpfsStorage,
+    DatabaseConfig,
+    DatabasePoolConfig,
+    RouteConfig,
+    SuperAdminConfig,
+    TlsConfig,
+    UpgradeSnapshotConfig,
+    WorkspaceUserConfig,
+    isClusteredMainServer,
+} from "./config";
+import { toSemver } from "./upgrade";
 
 export interface MainServerArgs extends AppServiceArgs {
+    /**
+     * The ingress controller shared by all of the Botpress instances.
+     */
+    ingressController: IngressController;
+    /**
+     * When enabled, the custom domain is served over HTTPS with a
+     * certificate from the ingress controller's ACME `ClusterIssuer`.
+     */
+    tls?: TlsConfig;
     langServerServiceEndpoint: pulumi.Output<string>;
+    /**
+     * The endpoint of the standalone Duckling server. If not set, Duckling
+     * is run in the background of the main server's container.
+     */
+    ducklingServiceEndpoint?: pulumi.Output<string>;
+    /**
+     * The custom domain of the instance. The Ingress resources only match
+     * this host when it is set.
+     */
     domainName?: string;
-    bpfsStorage: "disk" | "database";
+    bpfsStorage: BpfsStorage;
+    databasePool: DatabasePoolConfig;
+    /**
+     * The database settings, including which provider the database
+     * comes from. Required only if `bpfsStorage` is set to `database`.
+     */
+    database?: DatabaseConfig;
+    /**
+     * The connection to the database when it isn't a managed DO database
+     * cluster, i.e. for the `external` and `in-cluster` providers.
+     */
+    databaseConnection?: DatabaseConnection;
+    /**
+     * The endpoint of the Redis server used by the server nodes in cluster
+     * mode. Required when `numReplicas` is more than 1.
+     */
+    redisServiceEndpoint?: pulumi.Output<string>;
+    /**
+     * The routes to the server added to its default ones.
+     */
+    routes?: RouteConfig[];
+    /**
+     * The configuration of the server, as code. Changing it rolls the
+     * `Deployment`.
+     */
+    botpressConfig?: BotpressServerConfig;
+    /**
+     * The bots and the workspace users managed through the admin API.
+     * Require `botpressConfig.superAdmin`.
+     */
+    bots?: BotConfig[];
+    workspaceUsers?: WorkspaceUserConfig[];
     /**
-     * The size of the nodes in the database cluster.
-     * Required only if `bpfsStorage` is set to `database`.
+     * Snapshot the server's volume before migrating it to a new version.
      */
-    dbSize?: digitalocean.DatabaseSlug;
+    snapshot?: UpgradeSnapshotConfig;
+}
+
+/**
+ * How the main server connects to its database.
+ */
+export interface DatabaseConnection {
+    /**
+     * The connection string. It is stored in a `Secret`.
+     */
+    url: pulumi.Input<string>;
+    /**
+     * The CA certificate to trust, if the database uses one that isn't
+     * publicly trusted.
+     */
+    caCert?: pulumi.Input<string>;
+    /**
+     * The `PGSSLMODE` used by the db driver, e.g. `require` or `disable`.
+     */
+    sslMode: string;
+}
+
+/**
+ * Flattens config overrides into `BP_CONFIG_*` env vars, e.g.
+ * `httpServer.bodyLimit` into `BP_CONFIG_HTTPSERVER_BODYLIMIT`. The lists
+ * and the other values that aren't strings are passed as JSON.
+ */
+function toConfigEnv(
+    overrides: Record<string, unknown>,
+    prefix = "BP_CONFIG"
+): Record<string, string> {
+    const env: Record<string, string> = {};
+    for (const [key, value] of Object.entries(overrides)) {
+        const name = `${prefix}_${key.toUpperCase()}`;
+        if (
+            typeof value === "object" &&
+            value !== null &&
+            !Array.isArray(value)
+        ) {
+            Object.assign(
+                env,
+                toConfigEnv(value as Record<string, unknown>, name)
+            );
+        } else {
+            env[name] =
+                typeof value === "string" ? value : JSON.stringify(value);
+        }
+    }
+    return env;
 }
 
 /**
  * The `MainServer` is an app service that represents the main
- * Botpress server and the Duckling server running in the same container.
+ * Botpress server. Unless a standalone Duckling server is used, the Duckling
+ * server runs in the same container.
  * See https://botpress.io/docs/advanced/hosting#running-multiple-containers.
+ *
+ * The server's `botpress.config.json` can be overridden with `BP_CONFIG_*`
+ * env vars, or replaced by a file mounted from a `ConfigMap`. The env
+ * `Secret` and the `ConfigMap` are auto-named, so they're replaced, and the
+ * pods rolled, when they change.
  */
 export class MainServer extends AppService {
     public static readonly SERVER_PORT = 3000;
+    // The env vars of the data's storage, which the migration runs with.
+    private static readonly MIGRATION_ENV = [
+        "DATABASE_URL",
+        "BPFS_STORAGE",
+        "PGSSLMODE",
+    ];
 
     private serverArgs: MainServerArgs;
     private dbCluster: digitalocean.DatabaseCluster | undefined;
     private dbConnectionPool: digitalocean.DatabaseConnectionPool | undefined;
+    private certificate: k8s.apiextensions.CustomResource | undefined;
+    private routeResources: pulumi.Resource[] = [];
 
     constructor(args: MainServerArgs, opts: pulumi.ComponentResourceOptions) {
-        super("main-server", args, opts);
+        // The replicas of a clustered server can't share a `ReadWriteOnce` PVC,
+        // so they keep all of their state in the database instead.
+        super(
+            "main-server",
+            MainServer.isClustered(args)
+                ? { ...args, storageSize: undefined }
+                : args,
+            opts
+        );
         this.serverArgs = args;
 
-        if (this.serverArgs.bpfsStorage === "database") {
+        if (MainServer.isClustered(args)) {
+            if (args.bpfsStorage !== "database") {
+                throw new Error(
+                    "Running more than one main server replica requires the database Botpress storage type."
+                );
+            }
+            if (!args.redisServiceEndpoint) {
+                throw new Error(
+                    "Running more than one main server replica requires a Redis server."
+                );
+            }
+        }
+
+        if (
+            this.serverArgs.bpfsStorage === "database" &&
+            this.serverArgs.database?.provider === "managed-do"
+        ) {
             this.createDbCluster();
         }
+        this.createBackup();
         this.createDeployment();
         this.createService();
+        this.createAutoscaler();
+        if (this.serverArgs.tls?.enabled) {
+            this.createCertificate();
+        }
         this.createIngressResources();
+        const superAdmin = this.serverArgs.botpressConfig?.superAdmin;
+        if (superAdmin) {
+            const bootstrap = this.createSuperAdminBootstrap(superAdmin);
+            this.createBots(superAdmin, bootstrap);
+        }
 
         this.registerOutputs({});
     }
 
+    /**
+     * Whether the server runs in cluster mode, see `isClusteredMainServer`.
+     */
+    public static isClustered(
+        args: Pick<MainServerArgs, "numReplicas" | "autoscaling">
+    ): boolean {
+        return isClusteredMainServer(args);
+    }
+
     private createDbCluster() {
+        const database = this.serverArgs.database;
+        if (!database?.size) {
+            throw new Error(
+                "Botpress storage type database requires the database size to be set."
+            );
+        }
+
+        // The database cluster of an older stack keeps its name, since
+        // renaming it replaces it.
+        const legacyUrn = this.getLegacyUrn();
         this.dbCluster = new digitalocean.DatabaseCluster(
-            "dbCluster",
+            this.getResourceName("db-cluster"),
             {
-                name: "bp-db-cluster",
-                version: "12",
+                name: legacyUrn
+                    ? "bp-db-cluster"
+                    : this.getResourceName("db-cluster"),
+                version: database.version,
                 tags: ["botpress"],
                 engine: "pg",
-                nodeCount: 2,
-                region: digitalocean.Region.SFO2,
-                size:
-                    this.serverArgs.dbSize ||
-                    digitalocean.DatabaseSlug.DB_1VPCU1GB,
+                nodeCount: database.nodeCount,
+                region: database.region,
+                size: database.size,
             },
-            { parent: this }
+            { parent: this, aliases: this.getLegacyAliases("dbCluster") }
         );
+        // The database and the firewall were parented to the database
+        // cluster, and the connection pool to nothing.
+        const legacyDbClusterUrn =
+            legacyUrn &&
+            pulumi.createUrn(
+                "dbCluster",
+                "digitalocean:index/databaseCluster:DatabaseCluster",
+                legacyUrn
+            );
 
         const db = new digitalocean.DatabaseDb(
-            "bpDb",
+            this.getResourceName("db"),
             {
                 name: "botpress",
                 clusterId: this.dbCluster.id,
             },
-            { parent: this.dbCluster }
+            {
+                parent: this.dbCluster,
+                aliases: this.getLegacyAliases("bpDb", legacyDbClusterUrn),
+            }
         );
 
         this.dbConnectionPool = new digitalocean.DatabaseConnectionPool(
-            "bpConnectionPool",
+            this.getResourceName("db-connection-pool"),
             {
                 clusterId: this.dbCluster.id,
                 mode: "transaction",
-                size: 10,
+                size: database.connectionPoolSize,
                 name: "bpConnectionPool",
                 dbName: db.name,
                 user: this.dbCluster.user,
             },
-            { parent: this.dbConnectionPool }
+            {
+                parent: this.dbCluster,
+                aliases: legacyUrn
+                    ? [
+                          {
+                              name: "bpConnectionPool",
+                              parent: pulumi.rootStackResource,
+                          },
+                      ]
+                    : [],
+            }
         );
 
+        if (!this.serverArgs.clusterId) {
+            pulumi.log.warn(
+                "The cluster is not managed by this stack so it cannot be added as a trusted source of the database cluster. Add it to the database firewall manually.",
+                this
+            );
+            return;
+        }
+
         // Add the DOKS as a trusted resource to the DB cluster.
         const trustedResource = new digitalocean.DatabaseFirewall(
-            "dbTrustedResource",
+            this.getResourceName("db-trusted-resource"),
             {
                 clusterId: this.dbCluster.id,
                 rules: [
@@ -94,113 +303,212 @@ export class MainServer extends AppService {
                     },
                 ],
             },
-            { parent: this.dbCluster }
+            {
+                parent: this.dbCluster,
+                aliases: this.getLegacyAliases(
+                    "dbTrustedResource",
+                    legacyDbClusterUrn
+                ),
+            }
         );
     }
 
     private createDeployment() {
-        if (!this.pvc) {
+        const clustered = MainServer.isClustered(this.serverArgs);
+        if (!this.pvc && !clustered) {
             throw new Error(
                 "PersistentVolumeClaim is not initialized. Cannot create a deployment without it."
             );
         }
 
-        const volumeMounts = [this.pvc.mount("/botpress/data")];
-        if (this.serverArgs.bpfsStorage === "database") {
-            if (!this.dbCluster) {
-                throw new Error(
-                    "Botpress storage type database requires a database cluster to be created but it doesn't seem to have been created!"
+        const volumeMounts = this.pvc ? [this.pvc.mount("/botpress/data")] : [];
+        const secretEnv: Record<string, pulumi.Input<string>> = {};
+        const dbConnection = this.getDatabaseConnection();
+        if (dbConnection) {
+            secretEnv.DATABASE_URL = dbConnection.url;
+
+            if (dbConnection.caCert) {
+                const caCertSecret = new kx.Secret(
+                    this.getResourceName("server-db-ca-cert"),
+                    {
+                        metadata: this.getBaseMetadata(),
+                        stringData: {
+                            "db-cluster-ca-cert": pulumi.secret(
+                                dbConnection.caCert
+                            ),
+                        },
+                    },
+                    { parent: this }
+                );
+                volumeMounts.push(
+                    // Add the CA cert secret as a volume mount for the Main Server's deployment.
+                    caCertSecret.mount(
+                        "/usr/local/share/ca-certificates/db-cluster-ca-cert.crt"
+                    )
                 );
             }
+        }
 
-            const configMap = new kx.ConfigMap(
-                "bp-server-config-map",
+        const botpressConfig = this.serverArgs.botpressConfig;
+        if (botpressConfig?.pro.enabled && botpressConfig.pro.licenseKey) {
+            secretEnv.BP_CONFIG_PRO_LICENSEKEY = botpressConfig.pro.licenseKey;
+        }
+        if (botpressConfig?.file) {
+            const configFile = new kx.ConfigMap(
+                this.getResourceName("server-config"),
                 {
                     metadata: this.getBaseMetadata(),
                     data: {
-                        "db-cluster-ca-cert": this.dbCluster.id.apply((id) =>
-                            pulumi
-                                .output(
-                                    digitalocean.getDatabaseCa({
-                                        clusterId: id,
-                                    })
-                                )
-                                .apply((r) => r.certificate)
+                        "botpress.config.json": JSON.stringify(
+                            botpressConfig.file,
+                            undefined,
+                            2
                         ),
                     },
                 },
                 { parent: this }
             );
             volumeMounts.push(
-                // Add the CA cert config map as a volume mount for the Main Server's deployment.
-                configMap.mount(
-                    "/usr/local/share/ca-certificates/db-cluster-ca-cert.crt"
+                configFile.mount(
+                    "/botpress/data/global/botpress.config.json",
+                    "botpress.config.json"
                 )
             );
         }
 
-        const podName = "botpress-server";
+        const env: k8s.types.input.core.v1.EnvVar[] = [];
+        if (Object.keys(secretEnv).length > 0) {
+            env.push(...this.createSecretEnv(secretEnv));
+        }
+        if (clustered) {
+            env.push(
+                {
+                    name: "CLUSTER_ENABLED",
+                    value: "true",
+                },
+                {
+                    name: "REDIS_URL",
+                    value: this.serverArgs.redisServiceEndpoint!,
+                }
+            );
+        }
+        if (this.serverArgs.ducklingServiceEndpoint) {
+            env.push({
+                name: "BP_MODULE_NLU_DUCKLINGURL",
+                value: this.serverArgs.ducklingServiceEndpoint,
+            });
+        }
+
+        env.push(
+            ...this.getConfigEnv(),
+            {
+                name: "BP_MODULE_NLU_LANGUAGESOURCES",
+                value: pulumi.interpolate`[{ "endpoint": "${this.serverArgs.langServerServiceEndpoint}" }]`,
+            },
+            {
+                name: "EXTERNAL_URL",
+                value: this.getExternalUrl(),
+            },
+            {
+                name: "BPFS_STORAGE",
+                value: this.serverArgs.bpfsStorage,
+            },
+            {
+                name: "DATABASE_POOL",
+                value: JSON.stringify(this.serverArgs.databasePool),
+            },
+            {
+                /**
+                 * The db driver used by Botpress looks for this env var
+                 * to use the right SSL mode.
+                 * https://github.com/brianc/node-postgres/blob/master/packages/pg/lib/connection-parameters.js#L31
+                 */
+                name: "PGSSLMODE",
+                value: dbConnection?.sslMode ?? "require",
+            }
+        );
+        // The migration only needs the env of the data's storage, so that
+        // the other changes of the config don't run it again.
+        const migrationEnv = env.filter(
+            (e) =>
+                typeof e.name === "string" &&
+                MainServer.MIGRATION_ENV.includes(e.name)
+        );
+        const migrationContainer = this.getMigrationContainer(
+            migrationEnv,
+            volumeMounts
+        );
+        const snapshot = this.serverArgs.snapshot;
+        const dependsOn: pulumi.Resource[] =
+            this.pvc && snapshot?.enabled
+                ? [this.createSnapshot(this.pvc, snapshot)]
+                : [];
+
+        const podName = this.getResourceName("server");
+        // The volume is restored before it's migrated.
+        const initContainers = this.getRestoreContainers();
+        if (this.pvc) {
+            initContainers.push(migrationContainer);
+        } else {
+            dependsOn.push(this.createMigration(migrationContainer));
+        }
         const botpressServerPodBuilder = new kx.PodBuilder({
+            ...this.getScheduling(),
+            initContainers:
+                initContainers.length > 0 ? initContainers : undefined,
             containers: [
                 {
                     name: podName,
-                    image: `botpress/server:${this.botpressServerVersion}`,
+                    image: this.getBotpressImage(),
                     ports: {
                         http: MainServer.SERVER_PORT,
                     },
                     command: ["/bin/bash"],
-                    args: ["-c", "./duckling & ./bp"],
-                    env: [
-                        {
-                            name: "BP_MODULE_NLU_LANGUAGESOURCES",
-                            value: pulumi.interpolate`[{ "endpoint": "${this.serverArgs.langServerServiceEndpoint}" }]`,
-                        },
-                        {
-                            name: "EXTERNAL_URL",
-                            value: this.serverArgs.domainName
-                                ? this.serverArgs.domainName
-                                : pulumi.interpolate`http://${AppService.getIngressControllerIp()}`,
-                        },
-                        {
-                            name: "BPFS_STORAGE",
-                            value: this.serverArgs.bpfsStorage,
-                        },
-                        {
-                            name: "DATABASE_URL",
-                            /**
-                             * Append `&ssl=1` to the connection string. The driver used by Botpress uses
-                             * `pg-connection-string` npm package to parse the connection string.
-                             * It detects the presence of an `ssl` query-param in order to set
-                             * SSL mode to true.
-                             */
-                            value: this.dbConnectionPool
-                                ? pulumi.interpolate`${this.dbConnectionPool.privateUri}&ssl=1`
-                                : "",
-                        },
-                        {
-                            name: "DATABASE_POOL",
-                            value: `{"min":3,"max":10}`,
-                        },
-                        {
-                            /**
-                             * The db driver used by Botpress looks for this env var
-                             * to use the right SSL mode.
-                             * https://github.com/brianc/node-postgres/blob/master/packages/pg/lib/connection-parameters.js#L31
-                             */
-                            name: "PGSSLMODE",
-                            value: "require",
-                        },
+                    args: [
+                        "-c",
+                        this.serverArgs.ducklingServiceEndpoint
+                            ? "./bp"
+                            : "./duckling & ./bp",
                     ],
+                    env,
                     volumeMounts,
+                    ...this.getContainerHealth({
+                        probes: {
+                            startup: {
+                                path: "/status",
+                                port: MainServer.SERVER_PORT,
+                                periodSeconds: 10,
+                                failureThreshold: 30,
+                            },
+                            readiness: {
+                                path: "/status",
+                                port: MainServer.SERVER_PORT,
+                                periodSeconds: 10,
+                            },
+                            liveness: {
+                                path: "/status",
+                                port: MainServer.SERVER_PORT,
+                                periodSeconds: 20,
+                                failureThreshold: 3,
+                            },
+                        },
+                        resources: {
+                            requests: { cpu: "100m", memory: "512Mi" },
+                            limits: { memory: "1Gi" },
+                        },
+                    }),
                 },
             ],
         });
         this.appDeployment = new kx.Deployment(
             podName,
             {
-                spec: botpressServerPodBuilder.asDeploymentSpec({
-                    replicas: this.serverArgs.numReplicas,
-                }),
+                spec: this.withPodLabels(
+                    botpressServerPodBuilder.asDeploymentSpec({
+                        replicas: this.getReplicas(),
+                        strategy: this.getDeploymentStrategy(),
+                    })
+                ),
                 metadata: {
                     ...this.getBaseMetadata(),
                     // Without the `name`, the service fails to find the pod to direct traffic to.
@@ -210,17 +518,237 @@ export class MainServer extends AppService {
                     },
                 },
             },
+            {
+                ...this.getDeploymentOptions("botpress-server"),
+                dependsOn,
+            }
+        );
+    }
+
+    /**
+     * Returns the container that migrates the server's data (its database
+     * and BPFS) to the server's version. The migrations do nothing when the
+     * data is up to date.
+     *
+     * With a volume, i.e. the disk storage, the container runs before the
+     * server in its pod. The `Recreate` strategy stops the old server first,
+     * so the migration has the `ReadWriteOnce` volume to itself.
+     */
+    private getMigrationContainer(
+        env: k8s.types.input.core.v1.EnvVar[],
+        volumeMounts: pulumi.Input<kx.types.VolumeMount>[]
+    ): kx.types.Container {
+        const target = toSemver(this.botpressServerVersion);
+        return {
+            name: "migration",
+            image: this.getBotpressImage(),
+            command: ["/bin/bash"],
+            args: [
+                "-c",
+                target
+                    ? `./bp migrate up --target ${target}`
+                    : "./bp migrate up",
+            ],
+            env,
+            volumeMounts,
+        };
+    }
+
+    /**
+     * Migrate the data of a server without a volume, i.e. in its database,
+     * with a `Job` before the `Deployment` rolls out. The `Job` only changes,
+     * and the migrations only run again, with the version or the database.
+     * The old servers keep running until the migration succeeds.
+     */
+    private createMigration(container: kx.types.Container): kx.Job {
+        const name = this.getResourceName("server-migration");
+        const migrationPodBuilder = new kx.PodBuilder({
+            ...this.getNodeSelection(),
+            restartPolicy: "OnFailure",
+            containers: [{ ...container, name }],
+        });
+        return new kx.Job(
+            name,
+            {
+                metadata: this.getBaseMetadata(),
+                spec: this.withPodLabels(
+                    migrationPodBuilder.asJobSpec({ backoffLimit: 2 }),
+                    this.getMigrationSelector()
+                ),
+            },
+            {
+                parent: this,
+                // Jobs are immutable, so a new migration replaces the job.
+                deleteBeforeReplace: true,
+                customTimeouts: { create: "30m", update: "30m" },
+            }
+        );
+    }
+
+    /**
+     * Snapshot the server's volume before it's migrated. The snapshot is
+     * named after the server's version, so each upgrade replaces the
+     * snapshot of the previous one.
+     */
+    private createSnapshot(
+        pvc: kx.PersistentVolumeClaim,
+        snapshot: UpgradeSnapshotConfig
+    ): k8s.apiextensions.CustomResource {
+        const name = this.getResourceName(
+            `server-snapshot-${this.botpressServerVersion
+                .toLowerCase()
+                .replace(/[^a-z0-9-]/g, "-")}`
+        );
+        return new k8s.apiextensions.CustomResource(
+            name,
+            {
+                apiVersion: "snapshot.storage.k8s.io/v1",
+                kind: "VolumeSnapshot",
+                metadata: {
+                    ...this.getBaseMetadata(),
+                    name,
+                },
+                spec: {
+                    volumeSnapshotClassName: snapshot.volumeSnapshotClass,
+                    source: {
+                        persistentVolumeClaimName: pvc.metadata.name,
+                    },
+                },
+            },
             { parent: this }
         );
     }
 
+    /**
+     * Returns the `BP_CONFIG_*` env vars of the config overrides, along with
+     * the Pro and superadmin settings. The license key is in the env
+     * `Secret`.
+     */
+    private getConfigEnv(): k8s.types.input.core.v1.EnvVar[] {
+        const botpressConfig = this.serverArgs.botpressConfig;
+        if (!botpressConfig) {
+            return [];
+        }
+
+        const overrides: Record<string, unknown> = {
+            ...botpressConfig.overrides,
+        };
+        if (botpressConfig.pro.enabled) {
+            overrides.pro = { enabled: true };
+        }
+        if (botpressConfig.superAdmin) {
+            overrides.superAdmins = [
+                { email: botpressConfig.superAdmin.email, strategy: "default" },
+            ];
+        }
+        return Object.entries(toConfigEnv(overrides)).map(([name, value]) => ({
+            name,
+            value,
+        }));
+    }
+
+    /**
+     * Returns the connection to the database used by the `database`
+     * Botpress storage type, depending on the database provider.
+     */
+    private getDatabaseConnection(): DatabaseConnection | undefined {
+        if (this.serverArgs.bpfsStorage !== "database") {
+            return undefined;
+        }
+
+        if (this.serverArgs.database?.provider !== "managed-do") {
+            if (!this.serverArgs.databaseConnection) {
+                throw new Error(
+                    "Botpress storage type database requires a database connection when the database isn't a managed DO database cluster."
+                );
+            }
+            return this.serverArgs.databaseConnection;
+        }
+
+        if (!this.dbCluster || !this.dbConnectionPool) {
+            throw new Error(
+                "Botpress storage type database requires a database cluster to be created but it doesn't seem to have been created!"
+            );
+        }
+        return {
+            /**
+             * Append `&ssl=1` to the connection string. The driver used by Botpress uses
+             * `pg-connection-string` npm package to parse the connection string.
+             * It detects the presence of an `ssl` query-param in order to set
+             * SSL mode to true.
+             */
+            url: pulumi.interpolate`${this.dbConnectionPool.privateUri}&ssl=1`,
+            caCert: this.dbCluster.id.apply((id) =>
+                pulumi
+                    .output(
+                        digitalocean.getDatabaseCa({
+                            clusterId: id,
+                        })
+                    )
+                    .apply((r) => r.certificate)
+            ),
+            sslMode: "require",
+        };
+    }
+
+    /**
+     * Returns the port of the database the server connects to, if it uses
+     * the database Botpress storage type.
+     */
+    public getDatabasePort(): pulumi.Output<number> | undefined {
+        if (this.serverArgs.bpfsStorage !== "database") {
+            return undefined;
+        }
+        if (this.dbConnectionPool) {
+            return this.dbConnectionPool.port;
+        }
+        if (!this.serverArgs.databaseConnection) {
+            return undefined;
+        }
+        return pulumi
+            .output(this.serverArgs.databaseConnection.url)
+            .apply((url) => Number(new URL(url).port) || 5432);
+    }
+
+    /**
+     * Returns the IP range of the database the server connects to, when
+     * it's known: the private network of the managed database cluster,
+     * which the server reaches through its private URI.
+     */
+    public getDatabaseCidr(): pulumi.Output<string> | undefined {
+        if (this.serverArgs.bpfsStorage !== "database" || !this.dbCluster) {
+            return undefined;
+        }
+        return digitalocean.getVpcOutput(
+            { id: this.dbCluster.privateNetworkUuid },
+            { parent: this }
+        ).ipRange;
+    }
+
+    // The Secret the TLS certificate of the custom domain is stored in.
+    private getTlsSecretName(): string {
+        return this.getResourceName("tls");
+    }
+
+    /**
+     * Returns the URL the server is reached at from the outside.
+     */
+    getExternalUrl(): pulumi.Input<string> {
+        if (!this.serverArgs.domainName) {
+            return pulumi.interpolate`http://${this.serverArgs.ingressController.getAddress()}`;
+        }
+
+        const scheme = this.serverArgs.tls?.enabled ? "https" : "http";
+        return `${scheme}://${this.serverArgs.domainName}`;
+    }
+
     private createService() {
         if (!this.appDeployment) {
             throw new Error("Cannot create a service without a deployment.");
         }
 
         this.service = new k8s.core.v1.Service(
-            "botpress-server-service",
+            this.getResourceName("server-service"),
             {
                 metadata: this.getBaseMetadata(),
                 spec: {
@@ -236,145 +764,263 @@ export class MainServer extends AppService {
                     ],
                 },
             },
-            { parent: this }
+            {
+                parent: this,
+                aliases: this.getLegacyAliases("botpress-server-service"),
+            }
         );
     }
 
     /**
-     * Create an Ingress resource pointing to the botpress server service.
+     * Request a certificate for the custom domain from the ACME `ClusterIssuer`.
+     * A single certificate is shared by all of the Ingress resources.
      */
-    private createIngressResources() {
-        try {
-            this.getDeployment();
-            this.getService();
-        } catch (err) {
-            pulumi.log.info(
-                "Some resources are not yet ready.",
-                this,
-                undefined,
-                true
+    private createCertificate() {
+        const clusterIssuer =
+            this.serverArgs.ingressController.getClusterIssuer();
+        if (!this.serverArgs.domainName || !clusterIssuer) {
+            throw new Error(
+                "TLS requires a custom domain and the cluster issuer to be created."
             );
-            return;
         }
 
-        const ingressServiceBackend: k8s.types.input.networking.v1.IngressServiceBackend =
-            {
-                name: this.getService().metadata.name,
-                port: {
-                    number: MainServer.SERVER_PORT,
-                },
-            };
-
-        // Create an Ingress resource pointing to the botpress server service.
-        const assetsIngress = new k8s.networking.v1.Ingress(
-            "assets-ingress",
+        this.certificate = new k8s.apiextensions.CustomResource(
+            this.getResourceName("certificate"),
             {
+                apiVersion: "cert-manager.io/v1",
+                kind: "Certificate",
                 metadata: {
-                    labels: this.getDeployment().metadata.labels,
-                    namespace: this.serverArgs.namespace,
-                    annotations: {
-                        "kubernetes.io/ingress.class": "nginx",
-                        "nginx.ingress.kubernetes.io/use-regex": "true",
-                        "nginx.ingress.kubernetes.io/configuration-snippet": `
-                            proxy_cache my_cache;
-                            proxy_ignore_headers Cache-Control;
-                            proxy_hide_header Cache-Control;
-                            proxy_hide_header Pragma;
-                            proxy_cache_valid any 30m;
-                            proxy_set_header Cache-Control max-age=30;
-                            add_header Cache-Control max-age=30;
-                        `,
-                    },
+                    ...this.getBaseMetadata(),
+                    name: this.getTlsSecretName(),
                 },
                 spec: {
-                    ingressClassName:
-                        AppService.defaultIngressClass?.metadata.name,
-                    rules: [
-                        {
-                            http: {
-                                paths: [
-                                    {
-                                        path: "/.+/assets/.*",
-                                        pathType: "Prefix",
-                                        backend: {
-                                            service: ingressServiceBackend,
-                                        },
-                                    },
-                                ],
-                            },
-                        },
-                    ],
+                    secretName: this.getTlsSecretName(),
+                    dnsNames: [this.serverArgs.domainName],
+                    issuerRef: {
+                        kind: "ClusterIssuer",
+                        name: clusterIssuer.metadata.name,
+                    },
                 },
             },
             { parent: this }
         );
-        const socketIoIngress = new k8s.networking.v1.Ingress(
-            "socketio-ingress",
+    }
+
+    /**
+     * Returns the labels of the pod that migrates the server's data.
+     */
+    getMigrationSelector(): Record<string, string> {
+        return {
+            "app.kubernetes.io/part-of": "botpress",
+            "app.kubernetes.io/instance": this.serverArgs.instanceName,
+            "app.kubernetes.io/component": "server-migration",
+        };
+    }
+
+    /**
+     * Returns the labels of the pod that registers the superadmin, if any.
+     */
+    getSuperAdminBootstrapSelector(): Record<string, string> | undefined {
+        if (!this.serverArgs.botpressConfig?.superAdmin) {
+            return undefined;
+        }
+        return {
+            "app.kubernetes.io/part-of": "botpress",
+            "app.kubernetes.io/instance": this.serverArgs.instanceName,
+            "app.kubernetes.io/component": "superadmin-bootstrap",
+        };
+    }
+
+    /**
+     * Register the superadmin as the first user of a fresh server, through
+     * the admin API. The server refuses the registration once it has users,
+     * so the `Job` does nothing on later runs, e.g. changing the password
+     * afterwards has no effect.
+     */
+    private createSuperAdminBootstrap(
+        superAdmin: SuperAdminConfig
+    ): k8s.batch.v1.Job {
+        const registration = new k8s.core.v1.Secret(
+            this.getResourceName("superadmin-registration"),
             {
-                metadata: {
-                    labels: this.getDeployment().metadata.labels,
-                    namespace: this.serverArgs.namespace,
-                    annotations: {
-                        "kubernetes.io/ingress.class": "nginx",
-                        "nginx.ingress.kubernetes.io/configuration-snippet": `
-                            proxy_set_header Upgrade $http_upgrade;
-                            proxy_set_header Connection "Upgrade";
-                        `,
-                    },
-                },
-                spec: {
-                    ingressClassName:
-                        AppService.defaultIngressClass?.metadata.name,
-                    rules: [
-                        {
-                            http: {
-                                paths: [
-                                    {
-                                        path: "/socket.io/",
-                                        pathType: "Prefix",
-                                        backend: {
-                                            service: ingressServiceBackend,
-                                        },
-                                    },
-                                ],
-                            },
-                        },
-                    ],
+                metadata: this.getBaseMetadata(),
+                stringData: {
+                    "registration.json": pulumi.secret(
+                        superAdmin.password.apply((password) =>
+                            JSON.stringify({
+                                email: superAdmin.email,
+                                password,
+                            })
+                        )
+                    ),
                 },
             },
             { parent: this }
         );
-        const defaultIngress = new k8s.networking.v1.Ingress(
-            "root-ingress",
+
+        const script = [
+            "set -eu",
+            'until curl -sf "$SERVER_URL/status" > /dev/null; do sleep 5; done',
+            'status=$(curl -s -o /dev/null -w "%{http_code}" -H "Content-Type: application/json" --data-binary @/registration/registration.json "$SERVER_URL/api/v2/admin/auth/register/basic/default")',
+            'case "$status" in',
+            '    2??) echo "Registered the superadmin" ;;',
+            '    403) echo "The server already has users" ;;',
+            '    *) echo "The registration failed with $status" >&2; exit 1 ;;',
+            "esac",
+        ].join("\n");
+
+        return new k8s.batch.v1.Job(
+            this.getResourceName("superadmin-bootstrap"),
             {
-                metadata: {
-                    labels: this.getDeployment().metadata.labels,
-                    namespace: this.serverArgs.namespace,
-                    annotations: {
-                        "kubernetes.io/ingress.class": "nginx",
-                    },
-                },
+                metadata: this.getBaseMetadata(),
                 spec: {
-                    ingressClassName:
-                        AppService.defaultIngressClass?.metadata.name,
-                    rules: [
-                        {
-                            http: {
-                                paths: [
-                                    {
-                                        path: "/",
-                                        pathType: "Exact",
-                                        backend: {
-                                            service: ingressServiceBackend,
+                    backoffLimit: 4,
+                    template: {
+                        metadata: {
+                            labels: this.getSuperAdminBootstrapSelector(),
+                        },
+                        spec: {
+                            restartPolicy: "OnFailure",
+                            containers: [
+                                {
+                                    name: "register",
+                                    image: "curlimages/curl:7.80.0",
+                                    command: ["/bin/sh", "-c", script],
+                                    env: [
+                                        {
+                                            name: "SERVER_URL",
+                                            value: pulumi.interpolate`http://${
+                                                this.getService().metadata.name
+                                            }:${MainServer.SERVER_PORT}`,
+                                        },
+                                    ],
+                                    volumeMounts: [
+                                        {
+                                            name: "registration",
+                                            mountPath: "/registration",
+                                            readOnly: true,
                                         },
+                                    ],
+                                },
+                            ],
+                            volumes: [
+                                {
+                                    name: "registration",
+                                    secret: {
+                                        secretName: registration.metadata.name,
                                     },
-                                ],
-                            },
+                                },
+                            ],
                         },
-                    ],
+                    },
                 },
             },
-            { parent: this }
+            {
+                parent: this,
+                dependsOn: this.getDeployment(),
+                // Jobs are immutable, so a new registration replaces the job.
+                deleteBeforeReplace: true,
+                // The server can take a while to start for the first time.
+                customTimeouts: { create: "20m", update: "20m" },
+            }
         );
     }
+
+    /**
+     * Import the bots and create the workspace users through the admin API
+     * with the superadmin's credentials, once it's registered and the
+     * server is reachable through the ingress controller.
+     */
+    private createBots(
+        superAdmin: SuperAdminConfig,
+        bootstrap: k8s.batch.v1.Job
+    ) {
+        const connection = {
+            url: this.getExternalUrl(),
+            email: superAdmin.email,
+            password: superAdmin.password,
+        };
+        const dependsOn = [bootstrap, ...this.routeResources];
+
+        for (const bot of this.serverArgs.bots || []) {
+            new BotpressBot(
+                this.getResourceName(`bot-${bot.id}`),
+                { connection, botId: bot.id, archivePath: bot.archive },
+                { parent: this, dependsOn }
+            );
+        }
+        for (const user of this.serverArgs.workspaceUsers || []) {
+            new BotpressWorkspaceUser(
+                this.getResourceName(`user-${user.email}`),
+                {
+                    connection,
+                    email: user.email,
+                    strategy: user.strategy,
+                    role: user.role,
+                },
+                { parent: this, dependsOn }
+            );
+        }
+    }
+
+    /**
+     * Route the traffic of the instance's domain (or of any host, without a
+     * domain) to the server: its default routes, followed by the ones of
+     * the args.
+     */
+    private createIngressResources() {
+        try {
+            this.getDeployment();
+            this.getService();
+        } catch (err) {
+            pulumi.log.info(
+                "Some resources are not yet ready.",
+                this,
+                undefined,
+                true
+            );
+            return;
+        }
+
+        const defaultRoutes = this.getDefaultRoutes();
+        this.routeResources = this.createRoutes({
+            ingressController: this.serverArgs.ingressController,
+            port: MainServer.SERVER_PORT,
+            host: this.serverArgs.domainName,
+            tlsSecretName: this.certificate
+                ? this.getTlsSecretName()
+                : undefined,
+            sessionCookieName: "bp-server-route",
+            routes: [...defaultRoutes, ...(this.serverArgs.routes || [])],
+            defaultRoutes: defaultRoutes.map((route) => route.name),
+        });
+    }
+
+    /**
+     * The static assets are cached by the ingress controller. The socket.io
+     * connections are upgraded to websockets and, in cluster mode, pinned to
+     * a server node. Everything else goes to the server as is.
+     */
+    private getDefaultRoutes(): RouteConfig[] {
+        return [
+            {
+                name: "assets",
+                path: "/.+/assets/.*",
+                pathType: "ImplementationSpecific",
+                cache: { validity: "30m", maxAge: 30 },
+            },
+            {
+                name: "socketio",
+                path: "/socket.io/",
+                pathType: "Prefix",
+                websocket: true,
+                stickySessions: MainServer.isClustered(this.serverArgs),
+            },
+            {
+                name: "root",
+                path: "/",
+                pathType: "Prefix",
+            },
+        ];
+    }
 }
@@ -0,0 +1,363 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as k8s from "@pulumi/kubernetes";
+import * as random from "@pulumi/random";
+
+import { GrafanaConfig } from "./config";
+import { ingressTrafficDashboard, podHealthDashboard } from "./dashboards";
+import { IngressController } from "./ingressController";
+
+export interface MonitoringArgs {
+    // The kube-prometheus-stack Helm chart version.
+    version: string;
+    /**
+     * How long Prometheus keeps the samples, e.g. `7d`.
+     */
+    retention: string;
+    /**
+     * The storage size of the Prometheus PVC.
+     */
+    storageSize: string;
+    grafana: GrafanaConfig;
+    /**
+     * The ingress controller whose metrics are scraped, if it exposes them,
+     * and which serves Grafana if it has a hostname.
+     */
+    ingressController: IngressController;
+    /**
+     * The URL of the Loki server, which is added to Grafana as a data
+     * source.
+     */
+    lokiUrl?: pulumi.Input<string>;
+}
+
+/**
+ * Monitoring deploys Prometheus, and optionally Grafana, into the
+ * `monitoring` namespace using the kube-prometheus-stack Helm chart.
+ *
+ * Prometheus scrapes the ingress controller (only ingress-nginx exposes
+ * metrics) through a `ServiceMonitor`, and the health of every pod
+ * (including the Botpress ones) through the kubelet and kube-state-metrics.
+ * Botpress itself doesn't expose Prometheus metrics.
+ *
+ * The Grafana dashboards of the Botpress instances are provisioned from
+ * `dashboards.ts`.
+ */
+export class Monitoring extends pulumi.ComponentResource {
+    private static readonly GRAFANA_SERVICE = "grafana";
+
+    private args: MonitoringArgs;
+
+    private namespace: k8s.core.v1.Namespace | undefined;
+    private chart: k8s.helm.v3.Chart | undefined;
+    private grafanaPassword: random.RandomPassword | undefined;
+
+    constructor(
+        name: string,
+        args: MonitoringArgs,
+        opts?: pulumi.ComponentResourceOptions
+    ) {
+        super("monitoring", name, undefined, opts);
+        this.args = args;
+
+        this.createPrometheusStack();
+        const ingressMetrics = args.ingressController.getMetricsSelector();
+        if (ingressMetrics) {
+            this.createIngressControllerMonitor(ingressMetrics);
+        }
+        if (args.grafana.enabled) {
+            this.createDashboards(ingressMetrics !== undefined);
+            if (args.grafana.hostname) {
+                this.createGrafanaIngress(args.grafana.hostname);
+            }
+        }
+
+        this.registerOutputs({});
+    }
+
+    getNamespace(): k8s.core.v1.Namespace {
+        if (!this.namespace) {
+            throw new Error("Namespace is not yet initialized.");
+        }
+        return this.namespace;
+    }
+
+    /**
+     * Returns the URL of Grafana, if it's enabled. Without a hostname, it's
+     * the URL of its Service, which is reachable with a port-forward.
+     */
+    getGrafanaUrl(): pulumi.Output<string> | undefined {
+        if (!this.args.grafana.enabled) {
+            return undefined;
+        }
+        return pulumi.output(this.getGrafanaRootUrl());
+    }
+
+    /**
+     * Returns the password of the Grafana `admin` user, if it's enabled.
+     */
+    getGrafanaAdminPassword(): pulumi.Output<string> | undefined {
+        return this.grafanaPassword?.result;
+    }
+
+    private getGrafanaRootUrl(): pulumi.Input<string> {
+        const hostname = this.args.grafana.hostname;
+        if (!hostname) {
+            return pulumi.interpolate`http://${Monitoring.GRAFANA_SERVICE}.${
+                this.getNamespace().metadata.name
+            }.svc.cluster.local`;
+        }
+
+        const scheme = this.args.ingressController.getClusterIssuer()
+            ? "https"
+            : "http";
+        return `${scheme}://${hostname}`;
+    }
+
+    /**
+     * Deploy Prometheus, kube-state-metrics and Grafana using the Helm chart.
+     */
+    private createPrometheusStack() {
+        const namespace = new k8s.core.v1.Namespace(
+            "monitoring",
+            {
+                metadata: {
+                    name: "monitoring",
+                },
+            },
+            { parent: this }
+        );
+        this.namespace = namespace;
+
+        let grafanaAdminSecret: k8s.core.v1.Secret | undefined;
+        if (this.args.grafana.enabled) {
+            this.grafanaPassword = new random.RandomPassword(
+                "grafana-admin-password",
+                {
+                    length: 32,
+                    special: false,
+                },
+                { parent: this }
+            );
+            grafanaAdminSecret = new k8s.core.v1.Secret(
+                "grafana-admin",
+                {
+                    metadata: {
+                        name: "grafana-admin",
+                        namespace: namespace.metadata.name,
+                    },
+                    stringData: {
+                        "admin-user": "admin",
+                        "admin-password": this.grafanaPassword.result,
+                    },
+                },
+                { parent: this }
+            );
+        }
+
+        this.chart = new k8s.helm.v3.Chart(
+            "kube-prometheus-stack",
+            {
+                namespace: namespace.metadata.name,
+                // https://artifacthub.io/packages/helm/prometheus-community/kube-prometheus-stack
+                chart: "kube-prometheus-stack",
+                version: this.args.version,
+                fetchOpts: {
+                    repo: "https://prometheus-community.github.io/helm-charts",
+                },
+                values: {
+                    alertmanager: { enabled: false },
+                    // The control plane of DOKS is managed, so its metrics
+                    // can't be scraped.
+                    kubeControllerManager: { enabled: false },
+                    kubeScheduler: { enabled: false },
+                    kubeEtcd: { enabled: false },
+                    kubeProxy: { enabled: false },
+                    prometheus: {
+                        prometheusSpec: {
+                            retention: this.args.retention,
+                            // Select the monitors of every namespace, not
+                            // only the ones labeled with the Helm release.
+                            serviceMonitorSelectorNilUsesHelmValues: false,
+                            podMonitorSelectorNilUsesHelmValues: false,
+                            storageSpec: {
+                                volumeClaimTemplate: {
+                                    spec: {
+                                        accessModes: ["ReadWriteOnce"],
+                                        resources: {
+                                            requests: {
+                                                storage: this.args.storageSize,
+                                            },
+                                        },
+                                    },
+                                },
+                            },
+                        },
+                    },
+                    grafana: {
+                        enabled: this.args.grafana.enabled,
+                        fullnameOverride: Monitoring.GRAFANA_SERVICE,
+                        admin: {
+                            existingSecret: grafanaAdminSecret?.metadata.name,
+                            userKey: "admin-user",
+                            passwordKey: "admin-password",
+                        },
+                        additionalDataSources: this.args.lokiUrl
+                            ? [
+                                  {
+                                      name: "Loki",
+                                      type: "loki",
+                                      access: "proxy",
+                                      url: this.args.lokiUrl,
+                                  },
+                              ]
+                            : [],
+                        "grafana.ini": {
+                            server: { root_url: this.getGrafanaRootUrl() },
+                        },
+                        // Load the dashboards of the ConfigMaps labeled with
+                        // `grafana_dashboard`.
+                        sidecar: {
+                            dashboards: {
+                                enabled: true,
+                                label: "grafana_dashboard",
+                            },
+                        },
+                    },
+                },
+            },
+            {
+                parent: this,
+                dependsOn: grafanaAdminSecret ? [grafanaAdminSecret] : [],
+            }
+        );
+    }
+
+    /**
+     * Scrape the metrics of the ingress controller, which include the
+     * requests and latencies per Ingress.
+     */
+    private createIngressControllerMonitor(selector: Record<string, string>) {
+        if (!this.chart) {
+            throw new Error("Prometheus is not yet initialized.");
+        }
+
+        new k8s.apiextensions.CustomResource(
+            "ingress-nginx-monitor",
+            {
+                apiVersion: "monitoring.coreos.com/v1",
+                kind: "ServiceMonitor",
+                metadata: {
+                    name: "ingress-nginx",
+                    namespace: this.getNamespace().metadata.name,
+                },
+                spec: {
+                    namespaceSelector: {
+                        matchNames: [
+                            this.args.ingressController.getNamespace().metadata
+                                .name,
+                        ],
+                    },
+                    selector: { matchLabels: selector },
+                    endpoints: [
+                        {
+                            port: "metrics",
+                            interval: "30s",
+                            // Keep the namespace of the Ingresses rather than
+                            // the one of the controller.
+                            honorLabels: true,
+                        },
+                    ],
+                },
+            },
+            {
+                parent: this,
+                // The CRDs are installed by the chart.
+                dependsOn: this.chart.ready,
+            }
+        );
+    }
+
+    /**
+     * Provision the dashboards, including the one of the ingress traffic if
+     * the ingress controller's metrics are scraped.
+     */
+    private createDashboards(ingressTraffic: boolean) {
+        const dashboards: Record<string, Record<string, any>> = {
+            "botpress-pods.json": podHealthDashboard(),
+        };
+        if (ingressTraffic) {
+            dashboards["botpress-ingress.json"] = ingressTrafficDashboard();
+        }
+
+        const data: Record<string, string> = {};
+        for (const [file, dashboard] of Object.entries(dashboards)) {
+            data[file] = JSON.stringify(dashboard, undefined, 2);
+        }
+
+        new k8s.core.v1.ConfigMap(
+            "botpress-dashboards",
+            {
+                metadata: {
+                    name: "botpress-dashboards",
+                    namespace: this.getNamespace().metadata.name,
+                    labels: { grafana_dashboard: "1" },
+                },
+                data,
+            },
+            { parent: this }
+        );
+    }
+
+    /**
+     * Serve Grafana on its hostname through the ingress controller, with a
+     * certificate from the ACME `ClusterIssuer` if TLS is enabled.
+     */
+    private createGrafanaIngress(hostname: string) {
+        const clusterIssuer = this.args.ingressController.getClusterIssuer();
+        const annotations: Record<string, pulumi.Input<string>> = clusterIssuer
+            ? {
+                  "cert-manager.io/cluster-issuer": clusterIssuer.metadata.name,
+                  "nginx.ingress.kubernetes.io/force-ssl-redirect": "true",
+              }
+            : {};
+
+        new k8s.networking.v1.Ingress(
+            "grafana-ingress",
+            {
+                metadata: {
+                    name: "grafana",
+                    namespace: this.getNamespace().metadata.name,
+                    annotations,
+                },
+                spec: {
+                    ingressClassName:
+                        this.args.ingressController.getIngressClass().metadata
+                            .name,
+                    tls: clusterIssuer
+                        ? [{ hosts: [hostname], secretName: "grafana-tls" }]
+                        : undefined,
+                    rules: [
+                        {
+                            host: hostname,
+                            http: {
+                                paths: [
+                                    {
+                                        path: "/",
+                                        pathType: "Prefix",
+                                        backend: {
+                                            service: {
+                                                name: Monitoring.GRAFANA_SERVICE,
+                                                port: { number: 80 },
+                                            },
+                                        },
+                                    },
+                                ],
+                            },
+                        },
+                    ],
+                },
+            },
+            { parent: this, dependsOn: this.chart }
+        );
+    }
+}
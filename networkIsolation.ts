@@ -0,0 +1,357 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as k8s from "@pulumi/kubernetes";
+
+import { AppService } from "./appService";
+import { EgressRuleConfig } from "./config";
+import { DucklingServer } from "./ducklingServer";
+import { IngressController } from "./ingressController";
+import { LangServer } from "./langServer";
+import { MainServer } from "./mainServer";
+import { PostgresServer } from "./postgresServer";
+import { RedisServer } from "./redisServer";
+
+type NetworkPolicyPeer = k8s.types.input.networking.v1.NetworkPolicyPeer;
+type NetworkPolicyPort = k8s.types.input.networking.v1.NetworkPolicyPort;
+
+interface Backend {
+    name: string;
+    service: AppService;
+    port: number;
+}
+
+export interface NetworkIsolationArgs {
+    instanceName: string;
+    namespace: pulumi.Output<string>;
+    ingressController: IngressController;
+    mainServer: MainServer;
+    langServer: LangServer;
+    ducklingServer?: DucklingServer;
+    redisServer?: RedisServer;
+    postgresServer?: PostgresServer;
+    /**
+     * Allow the ingress controller to reach the cert-manager ACME HTTP-01
+     * solver pods, which run in the instance's namespace.
+     */
+    tls: boolean;
+    externalEgress: EgressRuleConfig[];
+}
+
+/**
+ * NetworkIsolation restricts the traffic of a Botpress instance with
+ * NetworkPolicies generated from the labels and ports of its app services.
+ *
+ * All of the traffic in the namespace is denied except:
+ * - DNS lookups,
+ * - the ingress controller (or any client, without one) to the main
+ *   server,
+ * - the main server to the language server, Duckling, Redis and the
+ *   database,
+ * - every pod to the configured external endpoints.
+ */
+export class NetworkIsolation extends pulumi.ComponentResource {
+    private args: NetworkIsolationArgs;
+
+    constructor(
+        name: string,
+        args: NetworkIsolationArgs,
+        opts?: pulumi.ComponentResourceOptions
+    ) {
+        super("network-isolation", name, undefined, opts);
+        this.args = args;
+
+        this.createDefaultPolicies();
+        this.createMainServerPolicies();
+        for (const backend of this.getBackends()) {
+            this.createBackendPolicy(backend);
+        }
+
+        this.registerOutputs({});
+    }
+
+    /**
+     * The app services only the main server talks to, along with the port
+     * it talks to them on.
+     */
+    private getBackends(): Backend[] {
+        const backends: Backend[] = [
+            {
+                name: "lang-server",
+                service: this.args.langServer,
+                port: LangServer.SERVER_PORT,
+            },
+        ];
+        if (this.args.ducklingServer) {
+            backends.push({
+                name: "duckling",
+                service: this.args.ducklingServer,
+                port: DucklingServer.SERVER_PORT,
+            });
+        }
+        if (this.args.redisServer) {
+            backends.push({
+                name: "redis",
+                service: this.args.redisServer,
+                port: RedisServer.SERVER_PORT,
+            });
+        }
+        if (this.args.postgresServer) {
+            backends.push({
+                name: "postgres",
+                service: this.args.postgresServer,
+                port: PostgresServer.SERVER_PORT,
+            });
+        }
+        return backends;
+    }
+
+    private getResourceName(name: string): string {
+        return `${this.args.instanceName}-${name}`;
+    }
+
+    private createPolicy(
+        name: string,
+        spec: k8s.types.input.networking.v1.NetworkPolicySpec
+    ) {
+        new k8s.networking.v1.NetworkPolicy(
+            this.getResourceName(name),
+            {
+                metadata: {
+                    name: this.getResourceName(name),
+                    namespace: this.args.namespace,
+                },
+                spec,
+            },
+            { parent: this }
+        );
+    }
+
+    /**
+     * Deny all of the traffic in the namespace, except DNS lookups and the
+     * external endpoints.
+     */
+    private createDefaultPolicies() {
+        this.createPolicy("default-deny", {
+            podSelector: {},
+            policyTypes: ["Ingress", "Egress"],
+        });
+
+        this.createPolicy("allow-dns", {
+            podSelector: {},
+            policyTypes: ["Egress"],
+            egress: [
+                {
+                    to: [
+                        {
+                            namespaceSelector: {},
+                            podSelector: {
+                                matchLabels: { "k8s-app": "kube-dns" },
+                            },
+                        },
+                    ],
+                    ports: [
+                        { protocol: "UDP", port: 53 },
+                        { protocol: "TCP", port: 53 },
+                    ],
+                },
+            ],
+        });
+
+        if (this.args.externalEgress.length > 0) {
+            this.createPolicy("allow-external-egress", {
+                podSelector: {},
+                policyTypes: ["Egress"],
+                egress: this.args.externalEgress.map((rule) => ({
+                    to: [{ ipBlock: { cidr: rule.cidr } }],
+                    ports: rule.ports?.map((port) => ({
+                        protocol: "TCP",
+                        port,
+                    })),
+                })),
+            });
+        }
+
+        if (this.args.tls) {
+            // https://cert-manager.io/docs/configuration/acme/http01/
+            this.createPolicy("acme-solver-from-ingress", {
+                podSelector: {
+                    matchLabels: {
+                        "acme.cert-manager.io/http01-solver": "true",
+                    },
+                },
+                policyTypes: ["Ingress"],
+                ingress: [
+                    {
+                        from: [this.getIngressControllerPeer()],
+                        ports: [{ protocol: "TCP", port: 8089 }],
+                    },
+                ],
+            });
+        }
+    }
+
+    /**
+     * The main server only accepts traffic from the ingress controller (and
+     * the `Job` registering the superadmin), and only connects to its
+     * backends and the database.
+     */
+    private createMainServerPolicies() {
+        const mainServer = this.args.mainServer;
+
+        // Without an ingress controller, the load balancer forwards the
+        // traffic of any client as is.
+        const from =
+            this.args.ingressController.backend === "load-balancer"
+                ? undefined
+                : [this.getIngressControllerPeer()];
+        this.createPolicy("main-server-from-ingress", {
+            podSelector: { matchLabels: mainServer.getPodSelector() },
+            policyTypes: ["Ingress"],
+            ingress: [
+                {
+                    from,
+                    ports: [{ protocol: "TCP", port: MainServer.SERVER_PORT }],
+                },
+            ],
+        });
+
+        const bootstrapSelector = mainServer.getSuperAdminBootstrapSelector();
+        if (bootstrapSelector) {
+            this.createPolicy("main-server-from-superadmin-bootstrap", {
+                podSelector: { matchLabels: mainServer.getPodSelector() },
+                policyTypes: ["Ingress"],
+                ingress: [
+                    {
+                        from: [
+                            { podSelector: { matchLabels: bootstrapSelector } },
+                        ],
+                        ports: [
+                            { protocol: "TCP", port: MainServer.SERVER_PORT },
+                        ],
+                    },
+                ],
+            });
+            this.createPolicy("superadmin-bootstrap-egress", {
+                podSelector: { matchLabels: bootstrapSelector },
+                policyTypes: ["Egress"],
+                egress: [
+                    {
+                        to: [
+                            {
+                                podSelector: {
+                                    matchLabels: mainServer.getPodSelector(),
+                                },
+                            },
+                        ],
+                        ports: [
+                            { protocol: "TCP", port: MainServer.SERVER_PORT },
+                        ],
+                    },
+                ],
+            });
+        }
+
+        const egress: k8s.types.input.networking.v1.NetworkPolicyEgressRule[] =
+            this.getBackends().map((backend) => ({
+                to: [
+                    {
+                        podSelector: {
+                            matchLabels: backend.service.getPodSelector(),
+                        },
+                    },
+                ],
+                ports: [{ protocol: "TCP", port: backend.port }],
+            }));
+        // The managed and external databases are outside of the cluster, so
+        // they're matched by their port and, for a managed one, the range of
+        // its private network.
+        const databasePort = this.args.postgresServer
+            ? undefined
+            : mainServer.getDatabasePort();
+        const databaseCidr = mainServer.getDatabaseCidr() ?? "0.0.0.0/0";
+        if (databasePort) {
+            egress.push({
+                to: [{ ipBlock: { cidr: databaseCidr } }],
+                ports: [{ protocol: "TCP", port: databasePort }],
+            });
+        }
+
+        this.createPolicy("main-server-egress", {
+            podSelector: { matchLabels: mainServer.getPodSelector() },
+            policyTypes: ["Egress"],
+            egress,
+        });
+
+        // The migration of the server's data only connects to the database.
+        const migrationEgress: k8s.types.input.networking.v1.NetworkPolicyEgressRule[] =
+            [];
+        if (this.args.postgresServer) {
+            migrationEgress.push({
+                to: [
+                    {
+                        podSelector: {
+                            matchLabels:
+                                this.args.postgresServer.getPodSelector(),
+                        },
+                    },
+                ],
+                ports: [{ protocol: "TCP", port: PostgresServer.SERVER_PORT }],
+            });
+        } else if (databasePort) {
+            migrationEgress.push({
+                to: [{ ipBlock: { cidr: databaseCidr } }],
+                ports: [{ protocol: "TCP", port: databasePort }],
+            });
+        }
+        if (migrationEgress.length > 0) {
+            this.createPolicy("server-migration-egress", {
+                podSelector: {
+                    matchLabels: mainServer.getMigrationSelector(),
+                },
+                policyTypes: ["Egress"],
+                egress: migrationEgress,
+            });
+        }
+    }
+
+    /**
+     * The backends only accept traffic from the main server, and the
+     * database from the migration of the server's data too.
+     */
+    private createBackendPolicy(backend: Backend) {
+        const from: NetworkPolicyPeer[] = [
+            {
+                podSelector: {
+                    matchLabels: this.args.mainServer.getPodSelector(),
+                },
+            },
+        ];
+        if (backend.service === this.args.postgresServer) {
+            from.push({
+                podSelector: {
+                    matchLabels: this.args.mainServer.getMigrationSelector(),
+                },
+            });
+        }
+        const ports: NetworkPolicyPort[] = [
+            { protocol: "TCP", port: backend.port },
+        ];
+
+        this.createPolicy(`${backend.name}-from-main-server`, {
+            podSelector: { matchLabels: backend.service.getPodSelector() },
+            policyTypes: ["Ingress"],
+            ingress: [{ from, ports }],
+        });
+    }
+
+    private getIngressControllerPeer(): NetworkPolicyPeer {
+        return {
+            namespaceSelector: {
+                matchLabels: {
+                    "kubernetes.io/metadata.name":
+                        this.args.ingressController.getNamespace().metadata
+                            .name,
+                },
+            },
+        };
+    }
+}
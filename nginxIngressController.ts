@@ -0,0 +1,322 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as k8s from "@pulumi/kubernetes";
+
+import { RouteTable } from "./appService";
+import { RouteConfig } from "./config";
+import {
+    IngressController,
+    IngressControllerArgs,
+    RouteTarget,
+} from "./ingressController";
+
+// The fields of the JSON access logs.
+// https://kubernetes.github.io/ingress-nginx/user-guide/nginx-configuration/log-format/
+const jsonLogFormat = JSON.stringify({
+    time: "$time_iso8601",
+    request_id: "$req_id",
+    remote_addr: "$remote_addr",
+    host: "$host",
+    method: "$request_method",
+    path: "$uri",
+    status: "$status",
+    request_length: "$request_length",
+    bytes_sent: "$bytes_sent",
+    request_time: "$request_time",
+    upstream_addr: "$upstream_addr",
+    upstream_status: "$upstream_status",
+    upstream_response_time: "$upstream_response_time",
+    namespace: "$namespace",
+    ingress: "$ingress_name",
+    service: "$service_name",
+    user_agent: "$http_user_agent",
+});
+
+/**
+ * NginxIngressController deploys an nginx-based ingress controller using
+ * Helm. Underneath, the nginx-ingress controller creates the relevant
+ * `Service` of type `LoadBalancer`.
+ *
+ * Each route is an `Ingress`, whose settings (e.g. the cache or the
+ * timeouts) are set with ingress-nginx annotations.
+ */
+export class NginxIngressController extends IngressController {
+    /**
+     * The nginx cache zone the routes cache their responses in.
+     */
+    public static readonly CACHE_ZONE = "my_cache";
+
+    // The labels of the chart's controller and metrics Services.
+    private static readonly CONTROLLER_LABELS = {
+        "app.kubernetes.io/name": "ingress-nginx",
+        "app.kubernetes.io/component": "controller",
+    };
+
+    private chart: k8s.helm.v3.Chart | undefined;
+
+    constructor(
+        name: string,
+        args: IngressControllerArgs,
+        opts?: pulumi.ComponentResourceOptions
+    ) {
+        super("nginx", name, args, opts);
+
+        this.createNamespace();
+        this.createIngressController();
+        if (args.tls?.enabled) {
+            this.createCertManager(args.tls, "nginx");
+        }
+
+        this.registerOutputs({});
+    }
+
+    getMetricsSelector(): Record<string, string> | undefined {
+        return this.args.metrics
+            ? NginxIngressController.CONTROLLER_LABELS
+            : undefined;
+    }
+
+    /**
+     * Create an `Ingress` per route of the table, since the ingress
+     * controller's settings (e.g. the cache or the timeouts) are set per
+     * `Ingress`.
+     */
+    createRoutes(
+        table: RouteTable,
+        target: RouteTarget
+    ): k8s.networking.v1.Ingress[] {
+        return table.routes.map((route) =>
+            this.createRoute(route, table, target)
+        );
+    }
+
+    protected getLoadBalancerService(): pulumi.Output<k8s.core.v1.Service> {
+        if (!this.chart) {
+            throw new Error("Ingress controller is not yet initialized.");
+        }
+        return this.findLoadBalancerService(
+            this.chart,
+            NginxIngressController.CONTROLLER_LABELS
+        );
+    }
+
+    private createRoute(
+        route: RouteConfig,
+        table: RouteTable,
+        target: RouteTarget
+    ): k8s.networking.v1.Ingress {
+        const ingressName = target.getResourceName(`${route.name}-ingress`);
+        const host = route.host ?? table.host;
+
+        const annotations: Record<string, pulumi.Input<string>> = {
+            "kubernetes.io/ingress.class": "nginx",
+            ...this.getRouteAnnotations(route, table),
+        };
+        let tls: k8s.types.input.networking.v1.IngressTLS[] | undefined;
+        if (table.tlsSecretName && host) {
+            // With TLS, plain HTTP requests are redirected to HTTPS.
+            annotations["nginx.ingress.kubernetes.io/force-ssl-redirect"] =
+                "true";
+            let secretName = table.tlsSecretName;
+            const clusterIssuer = this.getClusterIssuer();
+            if (route.host && route.host !== table.host && clusterIssuer) {
+                secretName = `${ingressName}-tls`;
+                annotations["cert-manager.io/cluster-issuer"] =
+                    clusterIssuer.metadata.name;
+            }
+            tls = [{ hosts: [host], secretName }];
+        }
+
+        return new k8s.networking.v1.Ingress(
+            ingressName,
+            {
+                metadata: {
+                    labels: target.labels,
+                    namespace: target.namespace,
+                    annotations,
+                },
+                spec: {
+                    ingressClassName: this.getIngressClass().metadata.name,
+                    tls,
+                    rules: [
+                        {
+                            host,
+                            http: {
+                                paths: [
+                                    {
+                                        path: route.path,
+                                        pathType: route.pathType,
+                                        backend: {
+                                            service: {
+                                                name: target.serviceName,
+                                                port: { number: table.port },
+                                            },
+                                        },
+                                    },
+                                ],
+                            },
+                        },
+                    ],
+                },
+            },
+            {
+                parent: target.parent,
+                aliases: target.getLegacyAliases(`${route.name}-ingress`),
+            }
+        );
+    }
+
+    /**
+     * Returns the ingress-nginx annotations of the settings of a route.
+     * https://kubernetes.github.io/ingress-nginx/user-guide/nginx-configuration/annotations/
+     */
+    private getRouteAnnotations(
+        route: RouteConfig,
+        table: RouteTable
+    ): Record<string, string> {
+        const prefix = "nginx.ingress.kubernetes.io";
+        const annotations: Record<string, string> = {};
+        const snippets: string[] = [];
+
+        if (route.pathType === "ImplementationSpecific") {
+            annotations[`${prefix}/use-regex`] = "true";
+        }
+        if (route.cache) {
+            snippets.push(
+                `proxy_cache ${NginxIngressController.CACHE_ZONE};`,
+                "proxy_ignore_headers Cache-Control;",
+                "proxy_hide_header Cache-Control;",
+                "proxy_hide_header Pragma;",
+                `proxy_cache_valid any ${route.cache.validity};`,
+                `proxy_set_header Cache-Control max-age=${route.cache.maxAge};`,
+                `add_header Cache-Control max-age=${route.cache.maxAge};`
+            );
+        }
+        if (route.websocket) {
+            snippets.push(
+                "proxy_set_header Upgrade $http_upgrade;",
+                'proxy_set_header Connection "Upgrade";'
+            );
+        }
+        if (snippets.length > 0) {
+            annotations[`${prefix}/configuration-snippet`] =
+                snippets.join("\n");
+        }
+        // The cookie keeps each client talking to the same pod.
+        if (route.stickySessions && table.sessionCookieName) {
+            annotations[`${prefix}/affinity`] = "cookie";
+            annotations[`${prefix}/affinity-mode`] = "persistent";
+            annotations[`${prefix}/session-cookie-name`] =
+                table.sessionCookieName;
+        }
+        if (route.bodySize) {
+            annotations[`${prefix}/proxy-body-size`] = route.bodySize;
+        }
+        const timeouts = route.timeouts || {};
+        for (const [name, seconds] of [
+            ["connect", timeouts.connect],
+            ["read", timeouts.read],
+            ["send", timeouts.send],
+        ] as const) {
+            if (seconds !== undefined) {
+                annotations[`${prefix}/proxy-${name}-timeout`] = `${seconds}`;
+            }
+        }
+        return annotations;
+    }
+
+    /**
+     * Deploy the NGINX ingress controller using the Helm chart.
+     */
+    private createIngressController() {
+        const namespace = this.getNamespace();
+
+        // The ingress class links all ingress objects to a particular ingress controller.
+        // It also serves as a way to set default parmaters on ingress objects.
+        // However, the nginx ingress controller does not support any parameters at this time.
+        this.ingressClass = new k8s.networking.v1.IngressClass(
+            "defaultIngressClass",
+            {
+                metadata: {
+                    name: "defaultNginxIngressClass",
+                    namespace: namespace.metadata.name,
+                    annotations: {
+                        // We'll only have a single nginx controller so we'll mark
+                        // this as the default ingress class for all ingress objects.
+                        "ingressclass.kubernetes.io/is-default-class": "true",
+                    },
+                },
+                spec: {
+                    controller: "k8s.io/nginx-ingress",
+                    // nginx-ingress does not support any parameters right now.
+                    // https://github.com/kubernetes/ingress-nginx/issues/5593#issuecomment-721479598
+                    // As an example of what `parameters` is see the AWS ELB doc.
+                    // https://kubernetes-sigs.github.io/aws-load-balancer-controller/v2.3/guide/ingress/ingress_class/#ingressclassparams
+                },
+            },
+            {
+                parent: this,
+                // It used to have no parent.
+                aliases: this.args.legacyParent
+                    ? [{ parent: pulumi.rootStackResource }]
+                    : [],
+            }
+        );
+
+        this.chart = new k8s.helm.v3.Chart(
+            "nginx",
+            {
+                namespace: namespace.metadata.name,
+                // https://artifacthub.io/packages/helm/ingress-nginx/ingress-nginx
+                chart: "ingress-nginx",
+                version: this.args.version,
+                fetchOpts: {
+                    repo: "https://kubernetes.github.io/ingress-nginx",
+                },
+                values: {
+                    controller: {
+                        publishService: { enabled: true },
+                        metrics: { enabled: this.args.metrics ?? false },
+                        config: {
+                            "proxy-body-size": "10M",
+                            // Log to the container's output, which outlives the
+                            // container and is picked up by the log collector.
+                            "access-log-path": "/dev/stdout",
+                            "error-log-path": "/dev/stderr",
+                            ...(this.args.jsonLogs
+                                ? {
+                                      "log-format-escape-json": "true",
+                                      "log-format-upstream": jsonLogFormat,
+                                  }
+                                : {}),
+                            "http-snippet": `
+                            # Prevent displaying Botpress in an iframe (clickjacking protection)
+                            add_header X-Frame-Options SAMEORIGIN;
+                        
+                            # Prevent browsers from detecting the mimetype if not sent by the server.
+                            add_header X-Content-Type-Options nosniff;
+                        
+                            # Force enable the XSS filter for the website, in case it was disabled manually
+                            add_header X-XSS-Protection "1; mode=block";
+
+                            # Configure the cache for static assets
+                            proxy_cache_path /tmp/nginx_cache levels=1:2 keys_zone=${NginxIngressController.CACHE_ZONE}:10m max_size=10g inactive=60m use_temp_path=off;
+                        `,
+                        },
+                    },
+                },
+                transformations: [
+                    (obj: any) => {
+                        // Do transformations on the YAML to set the namespace
+                        if (obj.metadata) {
+                            obj.metadata.namespace =
+                                namespace.metadata.name.apply((n) => n);
+                        }
+                    },
+                    (obj: any, opts: pulumi.CustomResourceOptions) =>
+                        this.waitForLoadBalancer(obj, opts),
+                ],
+            },
+            { parent: this, aliases: this.getLegacyAliases() }
+        );
+    }
+}
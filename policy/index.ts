@@ -0,0 +1,7 @@
+import { PolicyPack } from "@pulumi/policy";
+
+import { policies } from "./policies";
+
+new PolicyPack("botpress", {
+    policies,
+});
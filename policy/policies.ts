@@ -0,0 +1,258 @@
+import * as k8s from "@pulumi/kubernetes";
+import {
+    ResourceValidationPolicy,
+    StackValidationPolicy,
+    validateResourceOfType,
+} from "@pulumi/policy";
+
+/**
+ * The image the language server, Duckling and the main server run.
+ */
+const BOTPRESS_IMAGE = "botpress/server";
+
+/**
+ * The parts of the pod specs the policies look at.
+ */
+interface Container {
+    name: string;
+    image?: string;
+    env?: { name: string; value?: string }[];
+}
+
+interface PodSpec {
+    containers: Container[];
+    initContainers?: Container[];
+}
+
+/**
+ * DO block storage volumes can only be mounted by a single node, so a PVC
+ * requesting any other access mode never binds.
+ * https://www.digitalocean.com/docs/kubernetes/resources/volume-features/
+ */
+export const volumesReadWriteOnce: ResourceValidationPolicy = {
+    name: "botpress-volumes-read-write-once",
+    description:
+        "Persistent volume claims may only request the ReadWriteOnce access mode.",
+    enforcementLevel: "mandatory",
+    validateResource: [
+        validateResourceOfType(
+            k8s.core.v1.PersistentVolumeClaim,
+            (pvc, args, reportViolation) => {
+                checkAccessModes(pvc.spec?.accessModes, reportViolation);
+            }
+        ),
+        validateResourceOfType(
+            k8s.apps.v1.StatefulSet,
+            (statefulSet, args, reportViolation) => {
+                for (const template of statefulSet.spec?.volumeClaimTemplates ||
+                    []) {
+                    checkAccessModes(
+                        template.spec?.accessModes,
+                        reportViolation
+                    );
+                }
+            }
+        ),
+    ],
+};
+
+function checkAccessModes(
+    accessModes: string[] | undefined,
+    reportViolation: (message: string) => void
+) {
+    const unsupported = (accessModes || []).filter(
+        (mode) => mode !== "ReadWriteOnce"
+    );
+    if (unsupported.length > 0) {
+        reportViolation(
+            `DO volumes only support the ReadWriteOnce access mode, not ${unsupported.join(
+                ", "
+            )}.`
+        );
+    }
+}
+
+/**
+ * The replicas of the main server can't share the `ReadWriteOnce` data
+ * volume, so cluster mode keeps all of the Botpress state in the database.
+ * https://botpress.com/docs/advanced/hosting#cluster-mode
+ */
+export const clusteredMainServerRequiresDatabase: StackValidationPolicy = {
+    name: "botpress-clustered-main-server-requires-database",
+    description:
+        "A main server running more than one replica must use the database Botpress storage type.",
+    enforcementLevel: "mandatory",
+    validateStack: (args, reportViolation) => {
+        const autoscalers = args.resources.filter((r) =>
+            r.isType(k8s.autoscaling.v2beta2.HorizontalPodAutoscaler)
+        );
+
+        for (const resource of args.resources) {
+            const deployment = resource.asType(k8s.apps.v1.Deployment);
+            if (!deployment) {
+                continue;
+            }
+            const bpfsStorage = getEnvValue(
+                getPodSpec(resource)?.containers || [],
+                "BPFS_STORAGE"
+            );
+            // Only the main server is configured with a Botpress storage type.
+            if (bpfsStorage === undefined || bpfsStorage === "database") {
+                continue;
+            }
+
+            const name = deployment.metadata?.name;
+            const maxReplicas = autoscalers
+                .map(
+                    (r) =>
+                        r.asType(
+                            k8s.autoscaling.v2beta2.HorizontalPodAutoscaler
+                        )!
+                )
+                .filter(
+                    (hpa) =>
+                        hpa.spec?.scaleTargetRef?.kind === "Deployment" &&
+                        hpa.spec.scaleTargetRef.name === name
+                )
+                .reduce(
+                    (max, hpa) => Math.max(max, hpa.spec?.maxReplicas ?? 1),
+                    deployment.spec?.replicas ?? 1
+                );
+            if (maxReplicas > 1) {
+                reportViolation(
+                    `The main server ${name} can run ${maxReplicas} replicas but uses the ${bpfsStorage} Botpress storage type. Use the database storage type.`,
+                    resource.urn
+                );
+            }
+        }
+    },
+};
+
+/**
+ * The Botpress images must be pinned to the `botpressServerVersion` of the
+ * stack, so that every app service runs the same, known version.
+ */
+export const botpressImagePinned: ResourceValidationPolicy = {
+    name: "botpress-image-pinned",
+    description: `The ${BOTPRESS_IMAGE} image must be pinned to the botpressServerVersion.`,
+    enforcementLevel: "mandatory",
+    configSchema: {
+        properties: {
+            botpressServerVersion: {
+                type: "string",
+                description:
+                    "The only version the image may be pinned to. Any version other than latest is allowed if not set.",
+            },
+        },
+    },
+    validateResource: (args, reportViolation) => {
+        const podSpec = getPodSpec(args);
+        if (!podSpec) {
+            return;
+        }
+
+        const { botpressServerVersion } = args.getConfig<{
+            botpressServerVersion?: string;
+        }>();
+        for (const container of [
+            ...(podSpec.initContainers || []),
+            ...podSpec.containers,
+        ]) {
+            const [repository, tag] = (container.image || "").split(":");
+            if (repository !== BOTPRESS_IMAGE) {
+                continue;
+            }
+
+            if (!tag || tag === "latest") {
+                reportViolation(
+                    `The container ${container.name} must pin the ${BOTPRESS_IMAGE} image to a version, not ${container.image}.`
+                );
+            } else if (botpressServerVersion && tag !== botpressServerVersion) {
+                reportViolation(
+                    `The container ${container.name} runs ${container.image} instead of the botpressServerVersion ${botpressServerVersion}.`
+                );
+            }
+        }
+    },
+};
+
+/**
+ * Every Ingress must be served by the default `IngressClass`, which links it
+ * to the ingress controller deployed by the stack.
+ */
+export const ingressDefaultClass: StackValidationPolicy = {
+    name: "botpress-ingress-default-class",
+    description: "Ingresses should use the default IngressClass.",
+    enforcementLevel: "advisory",
+    validateStack: (args, reportViolation) => {
+        const defaultClasses = args.resources
+            .map((r) => r.asType(k8s.networking.v1.IngressClass))
+            .filter(
+                (ingressClass) =>
+                    ingressClass?.metadata?.annotations?.[
+                        "ingressclass.kubernetes.io/is-default-class"
+                    ] === "true"
+            )
+            .map((ingressClass) => ingressClass!.metadata!.name);
+        if (defaultClasses.length === 0) {
+            args.notApplicable("The stack has no default IngressClass.");
+        }
+
+        for (const resource of args.resources) {
+            const ingress = resource.asType(k8s.networking.v1.Ingress);
+            if (!ingress) {
+                continue;
+            }
+            const className = ingress.spec?.ingressClassName;
+            if (!className || !defaultClasses.includes(className)) {
+                reportViolation(
+                    `The Ingress ${ingress.metadata?.name} uses the ${
+                        className || "implicit"
+                    } IngressClass instead of the default ${defaultClasses.join(
+                        ", "
+                    )}.`,
+                    resource.urn
+                );
+            }
+        }
+    },
+};
+
+export const policies = [
+    volumesReadWriteOnce,
+    clusteredMainServerRequiresDatabase,
+    botpressImagePinned,
+    ingressDefaultClass,
+];
+
+/**
+ * Returns the pod spec of the workload resources the app services create.
+ */
+function getPodSpec(resource: {
+    type: string;
+    props: Record<string, any>;
+}): PodSpec | undefined {
+    switch (resource.type) {
+        case "kubernetes:apps/v1:Deployment":
+        case "kubernetes:apps/v1:StatefulSet":
+        case "kubernetes:batch/v1:Job":
+            return resource.props.spec?.template?.spec;
+        case "kubernetes:batch/v1:CronJob":
+            return resource.props.spec?.jobTemplate?.spec?.template?.spec;
+        default:
+            return undefined;
+    }
+}
+
+function getEnvValue(
+    containers: Container[],
+    name: string
+): string | undefined {
+    for (const container of containers) {
+        const env = (container.env || []).find((e) => e.name === name);
+        if (env) {
+            return env.value;
+        }
+    }
+    return undefined;
+}
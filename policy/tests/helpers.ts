@@ -0,0 +1,124 @@
+import {
+    PolicyResource,
+    ResourceValidationArgs,
+    ResourceValidationPolicy,
+    StackValidationArgs,
+    StackValidationPolicy,
+} from "@pulumi/policy";
+
+/**
+ * A resource as the policies see it: its type, name and properties.
+ */
+export interface MockResource {
+    type: string;
+    name: string;
+    props: Record<string, any>;
+}
+
+class NotApplicableError extends Error {}
+
+function isType(type: string) {
+    return (resourceClass: any) => resourceClass.__pulumiType === type;
+}
+
+function asType(resource: MockResource) {
+    return (resourceClass: any): any =>
+        isType(resource.type)(resourceClass) ? resource.props : undefined;
+}
+
+function notApplicable(reason?: string): never {
+    throw new NotApplicableError(reason);
+}
+
+function toPolicyResource(resource: MockResource): PolicyResource {
+    return {
+        ...resource,
+        urn: getUrn(resource),
+        opts: {
+            protect: false,
+            ignoreChanges: [],
+            aliases: [],
+            additionalSecretOutputs: [],
+            customTimeouts: {
+                createSeconds: 0,
+                updateSeconds: 0,
+                deleteSeconds: 0,
+            },
+        },
+        dependencies: [],
+        propertyDependencies: {},
+        isType: isType(resource.type),
+        asType: asType(resource),
+    } as PolicyResource;
+}
+
+export function getUrn(resource: MockResource): string {
+    return `urn:pulumi:test::botpress::${resource.type}::${resource.name}`;
+}
+
+/**
+ * Runs the resource validations of the policy against a mocked resource
+ * and returns the violations it reports.
+ */
+export async function runResourcePolicy(
+    policy: ResourceValidationPolicy,
+    resource: MockResource,
+    config: Record<string, any> = {}
+): Promise<string[]> {
+    const violations: string[] = [];
+    const args = {
+        ...toPolicyResource(resource),
+        stackTags: new Map(),
+        getConfig: () => config,
+        notApplicable,
+    } as unknown as ResourceValidationArgs;
+
+    const validations = Array.isArray(policy.validateResource)
+        ? policy.validateResource
+        : [policy.validateResource!];
+    for (const validate of validations) {
+        // Like the engine, only run the validations of the resource's type.
+        const type = (validate as any).__pulumiType;
+        if (type && type !== resource.type) {
+            continue;
+        }
+        try {
+            await validate(args, (message) => violations.push(message));
+        } catch (err) {
+            if (!(err instanceof NotApplicableError)) {
+                throw err;
+            }
+        }
+    }
+    return violations;
+}
+
+/**
+ * Runs the stack validation of the policy against mocked resources and
+ * returns the violations it reports, along with the URN of the resource
+ * each one is reported against.
+ */
+export async function runStackPolicy(
+    policy: StackValidationPolicy,
+    resources: MockResource[],
+    config: Record<string, any> = {}
+): Promise<{ message: string; urn?: string }[]> {
+    const violations: { message: string; urn?: string }[] = [];
+    const args: StackValidationArgs = {
+        resources: resources.map(toPolicyResource),
+        stackTags: new Map(),
+        getConfig: <T extends object>() => config as T,
+        notApplicable,
+    };
+
+    try {
+        await policy.validateStack(args, (message, urn) =>
+            violations.push({ message, urn })
+        );
+    } catch (err) {
+        if (!(err instanceof NotApplicableError)) {
+            throw err;
+        }
+    }
+    return violations;
+}
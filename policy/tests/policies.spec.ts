@@ -0,0 +1,195 @@
+import * as assert from "assert";
+
+import {
+    botpressImagePinned,
+    clusteredMainServerRequiresDatabase,
+    ingressDefaultClass,
+    volumesReadWriteOnce,
+} from "../policies";
+import { getUrn, runResourcePolicy, runStackPolicy } from "./helpers";
+import {
+    autoscaler,
+    ingress,
+    ingressClass,
+    langServerDeployment,
+    mainServerDeployment,
+    persistentVolumeClaim,
+    postgresStatefulSet,
+} from "./resources";
+
+describe("botpress-volumes-read-write-once", () => {
+    it("allows ReadWriteOnce volumes", async () => {
+        assert.deepStrictEqual(
+            await runResourcePolicy(
+                volumesReadWriteOnce,
+                persistentVolumeClaim(["ReadWriteOnce"])
+            ),
+            []
+        );
+        assert.deepStrictEqual(
+            await runResourcePolicy(
+                volumesReadWriteOnce,
+                postgresStatefulSet(["ReadWriteOnce"])
+            ),
+            []
+        );
+    });
+
+    it("rejects volumes shared by several nodes", async () => {
+        const violations = await runResourcePolicy(
+            volumesReadWriteOnce,
+            persistentVolumeClaim(["ReadWriteMany"])
+        );
+        assert.strictEqual(violations.length, 1);
+        assert.match(violations[0], /not ReadWriteMany/);
+    });
+
+    it("rejects the volume claim templates of stateful sets", async () => {
+        const violations = await runResourcePolicy(
+            volumesReadWriteOnce,
+            postgresStatefulSet(["ReadWriteOnce", "ReadOnlyMany"])
+        );
+        assert.strictEqual(violations.length, 1);
+        assert.match(violations[0], /not ReadOnlyMany/);
+    });
+});
+
+describe("botpress-clustered-main-server-requires-database", () => {
+    it("allows a single main server replica on the disk storage", async () => {
+        const violations = await runStackPolicy(
+            clusteredMainServerRequiresDatabase,
+            [mainServerDeployment({ replicas: 1, bpfsStorage: "disk" })]
+        );
+        assert.deepStrictEqual(violations, []);
+    });
+
+    it("allows several main server replicas on the database storage", async () => {
+        const violations = await runStackPolicy(
+            clusteredMainServerRequiresDatabase,
+            [
+                mainServerDeployment({ replicas: 2, bpfsStorage: "database" }),
+                autoscaler("botpress-server", 5),
+            ]
+        );
+        assert.deepStrictEqual(violations, []);
+    });
+
+    it("rejects several main server replicas on the disk storage", async () => {
+        const deployment = mainServerDeployment({
+            replicas: 2,
+            bpfsStorage: "disk",
+        });
+        const violations = await runStackPolicy(
+            clusteredMainServerRequiresDatabase,
+            [deployment]
+        );
+        assert.strictEqual(violations.length, 1);
+        assert.strictEqual(violations[0].urn, getUrn(deployment));
+    });
+
+    it("rejects autoscaling the main server on the disk storage", async () => {
+        const violations = await runStackPolicy(
+            clusteredMainServerRequiresDatabase,
+            [
+                mainServerDeployment({ replicas: 1, bpfsStorage: "disk" }),
+                autoscaler("botpress-server", 3),
+            ]
+        );
+        assert.strictEqual(violations.length, 1);
+        assert.match(violations[0].message, /can run 3 replicas/);
+    });
+
+    it("ignores the other app services", async () => {
+        const violations = await runStackPolicy(
+            clusteredMainServerRequiresDatabase,
+            [
+                mainServerDeployment({ replicas: 1, bpfsStorage: "disk" }),
+                langServerDeployment(3),
+                autoscaler("botpress-lang-server", 5),
+            ]
+        );
+        assert.deepStrictEqual(violations, []);
+    });
+});
+
+describe("botpress-image-pinned", () => {
+    it("allows a pinned image", async () => {
+        const violations = await runResourcePolicy(
+            botpressImagePinned,
+            mainServerDeployment({ replicas: 1, bpfsStorage: "disk" }),
+            { botpressServerVersion: "v12_26_8" }
+        );
+        assert.deepStrictEqual(violations, []);
+    });
+
+    it("rejects the latest and untagged images", async () => {
+        for (const image of ["botpress/server:latest", "botpress/server"]) {
+            const violations = await runResourcePolicy(
+                botpressImagePinned,
+                mainServerDeployment({
+                    replicas: 1,
+                    bpfsStorage: "disk",
+                    image,
+                })
+            );
+            assert.strictEqual(violations.length, 1, image);
+        }
+    });
+
+    it("rejects versions other than the configured one", async () => {
+        const violations = await runResourcePolicy(
+            botpressImagePinned,
+            mainServerDeployment({
+                replicas: 1,
+                bpfsStorage: "disk",
+                image: "botpress/server:v12_26_7",
+            }),
+            { botpressServerVersion: "v12_26_8" }
+        );
+        assert.strictEqual(violations.length, 1);
+        assert.match(violations[0], /instead of the botpressServerVersion/);
+    });
+
+    it("ignores the other images", async () => {
+        const violations = await runResourcePolicy(
+            botpressImagePinned,
+            postgresStatefulSet(["ReadWriteOnce"]),
+            { botpressServerVersion: "v12_26_8" }
+        );
+        assert.deepStrictEqual(violations, []);
+    });
+});
+
+describe("botpress-ingress-default-class", () => {
+    const defaultClass = ingressClass("defaultNginxIngressClass", true);
+
+    it("allows ingresses using the default class", async () => {
+        const violations = await runStackPolicy(ingressDefaultClass, [
+            defaultClass,
+            ingress("botpress-root-ingress", "defaultNginxIngressClass"),
+        ]);
+        assert.deepStrictEqual(violations, []);
+    });
+
+    it("flags ingresses using another or no class", async () => {
+        const other = ingress("botpress-assets-ingress", "traefik");
+        const implicit = ingress("botpress-root-ingress");
+        const violations = await runStackPolicy(ingressDefaultClass, [
+            defaultClass,
+            ingressClass("traefik", false),
+            other,
+            implicit,
+        ]);
+        assert.deepStrictEqual(
+            violations.map((v) => v.urn),
+            [getUrn(other), getUrn(implicit)]
+        );
+    });
+
+    it("is not applicable without a default class", async () => {
+        const violations = await runStackPolicy(ingressDefaultClass, [
+            ingress("botpress-root-ingress"),
+        ]);
+        assert.deepStrictEqual(violations, []);
+    });
+});
@@ -0,0 +1,145 @@
+import { MockResource } from "./helpers";
+
+/**
+ * Mocks of the resources the app services create, trimmed down to the
+ * properties the policies look at.
+ */
+
+export function persistentVolumeClaim(accessModes: string[]): MockResource {
+    return {
+        type: "kubernetes:core/v1:PersistentVolumeClaim",
+        name: "botpress-main-server-pvc-rw",
+        props: {
+            spec: {
+                accessModes,
+                resources: { requests: { storage: "1Gi" } },
+            },
+        },
+    };
+}
+
+export function postgresStatefulSet(accessModes: string[]): MockResource {
+    return {
+        type: "kubernetes:apps/v1:StatefulSet",
+        name: "botpress-postgres",
+        props: {
+            metadata: { name: "botpress-postgres" },
+            spec: {
+                template: {
+                    spec: {
+                        containers: [
+                            { name: "botpress-postgres", image: "postgres:12" },
+                        ],
+                    },
+                },
+                volumeClaimTemplates: [
+                    { metadata: { name: "data" }, spec: { accessModes } },
+                ],
+            },
+        },
+    };
+}
+
+export function mainServerDeployment(args: {
+    replicas: number;
+    bpfsStorage: string;
+    image?: string;
+}): MockResource {
+    return {
+        type: "kubernetes:apps/v1:Deployment",
+        name: "botpress-server",
+        props: {
+            metadata: { name: "botpress-server" },
+            spec: {
+                replicas: args.replicas,
+                template: {
+                    spec: {
+                        containers: [
+                            {
+                                name: "botpress-server",
+                                image: args.image || "botpress/server:v12_26_8",
+                                env: [
+                                    {
+                                        name: "BPFS_STORAGE",
+                                        value: args.bpfsStorage,
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                },
+            },
+        },
+    };
+}
+
+export function langServerDeployment(replicas: number): MockResource {
+    return {
+        type: "kubernetes:apps/v1:Deployment",
+        name: "botpress-lang-server",
+        props: {
+            metadata: { name: "botpress-lang-server" },
+            spec: {
+                replicas,
+                template: {
+                    spec: {
+                        containers: [
+                            {
+                                name: "botpress-lang-server",
+                                image: "botpress/server:v12_26_8",
+                            },
+                        ],
+                    },
+                },
+            },
+        },
+    };
+}
+
+export function autoscaler(target: string, maxReplicas: number): MockResource {
+    return {
+        type: "kubernetes:autoscaling/v2beta2:HorizontalPodAutoscaler",
+        name: `${target}-hpa`,
+        props: {
+            spec: {
+                scaleTargetRef: {
+                    apiVersion: "apps/v1",
+                    kind: "Deployment",
+                    name: target,
+                },
+                minReplicas: 1,
+                maxReplicas,
+            },
+        },
+    };
+}
+
+export function ingressClass(name: string, isDefault: boolean): MockResource {
+    return {
+        type: "kubernetes:networking.k8s.io/v1:IngressClass",
+        name,
+        props: {
+            metadata: {
+                name,
+                annotations: {
+                    "ingressclass.kubernetes.io/is-default-class": `${isDefault}`,
+                },
+            },
+            spec: { controller: "k8s.io/nginx-ingress" },
+        },
+    };
+}
+
+export function ingress(name: string, ingressClassName?: string): MockResource {
+    return {
+        type: "kubernetes:networking.k8s.io/v1:Ingress",
+        name,
+        props: {
+            metadata: { name },
+            spec: {
+                ingressClassName,
+                rules: [{ http: { paths: [{ path: "/" }] } }],
+            },
+        },
+    };
+}
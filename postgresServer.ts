@@ -0,0 +1,190 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as kx from "@pulumi/kubernetesx";
+import * as k8s from "@pulumi/kubernetes";
+import * as random from "@pulumi/random";
+
+import { AppService, AppServiceArgs } from "./appService";
+
+export interface PostgresServerArgs extends AppServiceArgs {
+    /**
+     * The PostgreSQL major version, i.e. the tag of the `postgres` image.
+     */
+    postgresVersion: string;
+    /**
+     * The storage size of the database's own PVC.
+     */
+    databaseStorageSize: string;
+}
+
+/**
+ * The `PostgresServer` is an app service that represents a single-node
+ * PostgreSQL server running in the cluster, for stacks where a managed
+ * database cluster is too expensive or not available.
+ *
+ * Unlike the other app services, it is a `StatefulSet` so that the
+ * database keeps its own PVC across pod restarts.
+ */
+export class PostgresServer extends AppService {
+    public static readonly SERVER_PORT = 5432;
+    private static readonly DB_NAME = "botpress";
+    private static readonly DB_USER = "botpress";
+
+    private postgresServerArgs: PostgresServerArgs;
+    private password: random.RandomPassword;
+    private statefulSet: k8s.apps.v1.StatefulSet | undefined;
+
+    constructor(
+        args: PostgresServerArgs,
+        opts: pulumi.ComponentResourceOptions
+    ) {
+        super("postgres", args, opts);
+        this.postgresServerArgs = args;
+
+        this.password = new random.RandomPassword(
+            this.getResourceName("postgres-password"),
+            {
+                length: 32,
+                special: false,
+            },
+            { parent: this }
+        );
+
+        this.createService();
+        this.createStatefulSet();
+
+        this.registerOutputs({});
+    }
+
+    private createService() {
+        this.service = new k8s.core.v1.Service(
+            this.getResourceName("postgres-service"),
+            {
+                metadata: this.getBaseMetadata(),
+                spec: {
+                    selector: {
+                        app: this.getResourceName("postgres"),
+                    },
+                    ports: [
+                        {
+                            name: "postgres",
+                            port: PostgresServer.SERVER_PORT,
+                            targetPort: PostgresServer.SERVER_PORT,
+                        },
+                    ],
+                },
+            },
+            { parent: this }
+        );
+    }
+
+    private createStatefulSet() {
+        const podName = this.getResourceName("postgres");
+        const postgresPodBuilder = new kx.PodBuilder({
+            ...this.getScheduling(),
+            containers: [
+                {
+                    name: podName,
+                    image: `postgres:${this.postgresServerArgs.postgresVersion}`,
+                    ports: {
+                        postgres: PostgresServer.SERVER_PORT,
+                    },
+                    env: [
+                        { name: "POSTGRES_DB", value: PostgresServer.DB_NAME },
+                        {
+                            name: "POSTGRES_USER",
+                            value: PostgresServer.DB_USER,
+                        },
+                        // DO volumes have a `lost+found` directory at their root,
+                        // which `initdb` refuses to initialize.
+                        {
+                            name: "PGDATA",
+                            value: "/var/lib/postgresql/data/pgdata",
+                        },
+                        ...this.createSecretEnv({
+                            POSTGRES_PASSWORD: this.password.result,
+                        }),
+                    ],
+                    volumeMounts: [
+                        {
+                            name: "data",
+                            mountPath: "/var/lib/postgresql/data",
+                        },
+                    ],
+                    ...this.getContainerHealth({
+                        probes: {
+                            readiness: {
+                                port: PostgresServer.SERVER_PORT,
+                                periodSeconds: 10,
+                            },
+                            liveness: {
+                                port: PostgresServer.SERVER_PORT,
+                                periodSeconds: 20,
+                                failureThreshold: 3,
+                            },
+                        },
+                        resources: {
+                            requests: { cpu: "100m", memory: "256Mi" },
+                            limits: { memory: "512Mi" },
+                        },
+                    }),
+                },
+            ],
+        });
+
+        this.statefulSet = new k8s.apps.v1.StatefulSet(
+            podName,
+            {
+                metadata: {
+                    ...this.getBaseMetadata(),
+                    name: podName,
+                    labels: {
+                        app: podName,
+                    },
+                },
+                spec: this.withPodLabels(
+                    postgresPodBuilder.asStatefulSetSpec({ replicas: 1 })
+                ).apply((spec) => ({
+                    ...spec,
+                    serviceName: this.getService().metadata.name,
+                    volumeClaimTemplates: [
+                        {
+                            metadata: { name: "data" },
+                            spec: {
+                                accessModes: ["ReadWriteOnce"],
+                                resources: {
+                                    requests: {
+                                        storage:
+                                            this.postgresServerArgs
+                                                .databaseStorageSize,
+                                    },
+                                },
+                            },
+                        },
+                    ],
+                })),
+            },
+            { parent: this }
+        );
+    }
+
+    getPodSelector(): pulumi.Output<Record<string, string>> {
+        if (!this.statefulSet) {
+            throw new Error("StatefulSet is not yet initialized.");
+        }
+        return this.statefulSet.spec.selector.matchLabels;
+    }
+
+    /**
+     * The connection string of the Botpress database, including the
+     * generated password. It is a Pulumi secret.
+     */
+    public getConnectionString(): pulumi.Output<string> {
+        return pulumi.secret(
+            pulumi.interpolate`postgres://${PostgresServer.DB_USER}:${
+                this.password.result
+            }@${this.getService().metadata.name}.${
+                this.postgresServerArgs.namespace
+            }:${PostgresServer.SERVER_PORT}/${PostgresServer.DB_NAME}`
+        );
+    }
+}
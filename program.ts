@@ -0,0 +1,177 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as digitalocean from "@pulumi/digitalocean";
+import * as k8s from "@pulumi/kubernetes";
+
+import { BotpressInstance } from "./botpressInstance";
+import { createClusterProvider } from "./clusterProvider";
+import { loadStackConfig } from "./config";
+import { createIngressController } from "./ingressBackend";
+import { Logging } from "./logging";
+import { Monitoring } from "./monitoring";
+import { getDeployedBotpressServerVersion } from "./upgrade";
+
+/**
+ * The outputs of the stack.
+ */
+export interface BotpressStackOutputs {
+    // The IP or, if it has none, the hostname of the ingress load balancer.
+    ingressAddress: pulumi.Output<string>;
+    ingressIp: pulumi.Output<string | undefined>;
+    botpressUrl: pulumi.Output<string>;
+    botpressServerVersion: string;
+    grafanaUrl?: pulumi.Output<string>;
+    grafanaAdminPassword?: pulumi.Output<string>;
+}
+
+/**
+ * Deploys the cluster, the shared ingress controller, logging, monitoring
+ * and the Botpress instances, as configured by the stack config. This is
+ * the program of the stack, run by `index.ts` with the Pulumi CLI and as an
+ * inline program by `cli.ts`.
+ */
+export function deployBotpress(): BotpressStackOutputs {
+    // Read and validate the whole stack config before registering any resource.
+    const config = loadStackConfig();
+    const domainName = config.customDomain;
+
+    // The cluster is either a new DOKS cluster, an existing one reached via a
+    // kubeconfig, or none when the manifests are only rendered to a directory.
+    // See `clusterProvider.ts`.
+    const cluster = createClusterProvider(config.cluster);
+    const provider = cluster.provider;
+
+    // Create the Namespaces.
+    const appsNamespace = new k8s.core.v1.Namespace(
+        "apps",
+        {
+            metadata: {
+                name: "apps",
+            },
+        },
+        { provider }
+    );
+
+    // The ingress controller (and cert-manager, if TLS is enabled) is shared
+    // by all of the Botpress instances in the cluster. See `ingressBackend.ts`.
+    const ingressController = createIngressController(
+        "ingress-controller",
+        config.ingress.backend,
+        {
+            version: config.ingress.version,
+            tls: config.tls,
+            metrics: config.monitoring.enabled,
+            jsonLogs: config.logging.enabled,
+            loadBalancerTimeoutMinutes:
+                config.ingress.loadBalancerTimeoutMinutes,
+            endpoint:
+                config.ingress.ip || config.ingress.hostname
+                    ? {
+                          ip: config.ingress.ip,
+                          hostname: config.ingress.hostname,
+                      }
+                    : undefined,
+            // The resources of a stack deployed before the instances existed
+            // were parented to the cluster.
+            legacyParent: cluster.parent,
+            namespace: appsNamespace.metadata.name,
+        },
+        { provider, parent: cluster.parent }
+    );
+
+    // Fluent Bit collects the logs of the instances and the ingress controller.
+    const logging = config.logging.enabled
+        ? new Logging(
+              "logging",
+              {
+                  fluentBitVersion: config.logging.fluentBitVersion,
+                  sink: config.logging.sink,
+                  loki: config.logging.loki,
+                  http: config.logging.http,
+                  // The load-balancer backend runs no controller.
+                  namespaces:
+                      ingressController.backend === "load-balancer"
+                          ? [appsNamespace.metadata.name]
+                          : [
+                                appsNamespace.metadata.name,
+                                ingressController.getNamespace().metadata.name,
+                            ],
+              },
+              { provider, parent: cluster.parent }
+          )
+        : undefined;
+
+    // Prometheus (and Grafana) scrape the ingress controller and the pods of
+    // every instance.
+    const monitoring = config.monitoring.enabled
+        ? new Monitoring(
+              "monitoring",
+              {
+                  version: config.monitoring.chartVersion,
+                  retention: config.monitoring.retention,
+                  storageSize: config.monitoring.storageSize,
+                  grafana: config.monitoring.grafana,
+                  ingressController,
+                  lokiUrl: logging?.getLokiUrl(),
+              },
+              { provider, parent: cluster.parent }
+          )
+        : undefined;
+
+    // The app services refuse to downgrade the Botpress server from the version
+    // of the last update, which is exported below.
+    const deployedBotpressServerVersion = getDeployedBotpressServerVersion();
+
+    // More instances (e.g. one per tenant) can be added here, each with its own
+    // name and hostname.
+    const botpress = new BotpressInstance(
+        "botpress",
+        {
+            ...config,
+            namespace: appsNamespace.metadata.name,
+            hostname: domainName,
+            ingressController,
+            clusterId: cluster.clusterId,
+            deployedBotpressServerVersion,
+            // The default instance adopts the resources of a stack deployed
+            // before the instances existed.
+            legacyParent: cluster.parent,
+        },
+        { provider, parent: cluster.parent }
+    );
+
+    // The load balancer of the ingress controller has an IP on DO, but only a
+    // hostname on some other clouds.
+    const ingressAddress = ingressController.getAddress();
+    const ingressIp = ingressController
+        .getEndpoint()
+        .apply((endpoint) => endpoint.ip);
+    const botpressUrl = pulumi.output(botpress.mainServer.getExternalUrl());
+    const botpressServerVersion = config.botpressServerVersion;
+    const grafanaUrl = monitoring?.getGrafanaUrl();
+    const grafanaAdminPassword = monitoring?.getGrafanaAdminPassword();
+
+    // Rendering the manifests must not reach any cloud, so the record of the
+    // domain is left to its owner.
+    if (domainName && config.cluster.provider !== "render") {
+        const domain = new digitalocean.Domain("botpress-domain", {
+            /**
+             * Ensure that you have registered the domain before adding it to DO.
+             * DO doesn't support domain registrar services.
+             * https://www.digitalocean.com/community/tutorials/how-to-point-to-digitalocean-nameservers-from-common-domain-registrars
+             */
+            name: domainName,
+            // Fails, rather than publishing a bogus record, if the load balancer
+            // has no IP.
+            ipAddress: ingressController.getIp(),
+        });
+    }
+
+    return {
+        ingressAddress,
+        ingressIp,
+        botpressUrl,
+        botpressServerVersion,
+        grafanaUrl,
+        grafanaAdminPassword,
+    };
+}
@@ -0,0 +1,121 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as kx from "@pulumi/kubernetesx";
+import * as k8s from "@pulumi/kubernetes";
+
+import { AppService, AppServiceArgs } from "./appService";
+
+export interface RedisServerArgs extends AppServiceArgs {
+    /**
+     * The version (image tag) of the `redis` image.
+     */
+    redisVersion: string;
+}
+
+/**
+ * The `RedisServer` is an app service that represents the Redis server the
+ * main Botpress server nodes use to talk to each other in cluster mode.
+ * Botpress only uses Redis for pub/sub and caching, so nothing is persisted.
+ * See https://botpress.com/docs/advanced/hosting#cluster-mode.
+ */
+export class RedisServer extends AppService {
+    public static readonly SERVER_PORT = 6379;
+
+    private redisServerArgs: RedisServerArgs;
+
+    constructor(args: RedisServerArgs, opts: pulumi.ComponentResourceOptions) {
+        super("redis", args, opts);
+        this.redisServerArgs = args;
+
+        this.createDeployment();
+        this.createService();
+        this.createAutoscaler();
+
+        this.registerOutputs({});
+    }
+
+    private createDeployment() {
+        const podName = this.getResourceName("redis");
+        const redisPodBuilder = new kx.PodBuilder({
+            ...this.getScheduling(),
+            containers: [
+                {
+                    name: podName,
+                    image: `redis:${this.redisServerArgs.redisVersion}`,
+                    ports: {
+                        redis: RedisServer.SERVER_PORT,
+                    },
+                    ...this.getContainerHealth({
+                        probes: {
+                            readiness: {
+                                port: RedisServer.SERVER_PORT,
+                                periodSeconds: 10,
+                            },
+                            liveness: {
+                                port: RedisServer.SERVER_PORT,
+                                periodSeconds: 20,
+                                failureThreshold: 3,
+                            },
+                        },
+                        resources: {
+                            requests: { cpu: "50m", memory: "64Mi" },
+                            limits: { memory: "128Mi" },
+                        },
+                    }),
+                },
+            ],
+        });
+        this.appDeployment = new kx.Deployment(
+            podName,
+            {
+                spec: this.withPodLabels(
+                    redisPodBuilder.asDeploymentSpec({
+                        replicas: this.getReplicas(),
+                    })
+                ),
+                metadata: {
+                    ...this.getBaseMetadata(),
+                    // Without the `name`, the service fails to find the pod to direct traffic to.
+                    name: podName,
+                    labels: {
+                        app: podName,
+                    },
+                },
+            },
+            this.getDeploymentOptions()
+        );
+    }
+
+    private createService() {
+        if (!this.appDeployment) {
+            throw new Error("Cannot create a service without a deployment.");
+        }
+
+        this.service = new k8s.core.v1.Service(
+            this.getResourceName("redis-service"),
+            {
+                metadata: this.getBaseMetadata(),
+                spec: {
+                    selector: {
+                        app: this.appDeployment.metadata.name,
+                    },
+                    ports: [
+                        {
+                            name: "redis",
+                            port: RedisServer.SERVER_PORT,
+                            targetPort: RedisServer.SERVER_PORT,
+                        },
+                    ],
+                },
+            },
+            { parent: this }
+        );
+    }
+
+    public getServiceEndpoint(): pulumi.Output<string> {
+        if (!this.service) {
+            throw new Error("Service is not yet initialized.");
+        }
+
+        return pulumi.interpolate`redis://${this.service.metadata.name}.${this.redisServerArgs.namespace}:${RedisServer.SERVER_PORT}`;
+    }
+}
@@ -0,0 +1,168 @@
+import * as assert from "assert";
+import * as http from "http";
+
+import {
+    ArchiveCredentials,
+    ArchiveLocation,
+    BackupArchiveProvider,
+    listArchives,
+} from "../backupArchive";
+
+const CREDENTIALS: ArchiveCredentials = {
+    accessKeyId: "access-key",
+    secretAccessKey: "secret-key",
+};
+
+/**
+ * A stand-in for the `ListObjectsV2` API of an S3-compatible bucket,
+ * returning one key per page.
+ */
+class BucketServer {
+    public readonly requests: http.IncomingMessage[] = [];
+    private server = http.createServer((req, res) => this.handle(req, res));
+
+    constructor(private keys: string[]) {}
+
+    async start(): Promise<string> {
+        await new Promise<void>((resolve) =>
+            this.server.listen(0, "127.0.0.1", resolve)
+        );
+        const address = this.server.address() as { port: number };
+        return `http://127.0.0.1:${address.port}`;
+    }
+
+    stop(): Promise<void> {
+        return new Promise((resolve) => this.server.close(() => resolve()));
+    }
+
+    private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        this.requests.push(req);
+        if (!req.headers.authorization?.startsWith("AWS4-HMAC-SHA256 ")) {
+            res.writeHead(403);
+            res.end();
+            return;
+        }
+        const url = new URL(req.url!, "http://localhost");
+        const prefix = url.searchParams.get("prefix") || "";
+        const keys = this.keys.filter((key) => key.startsWith(prefix));
+        const index = Number(url.searchParams.get("continuation-token") || 0);
+        const truncated = index + 1 < keys.length;
+        res.writeHead(200, { "Content-Type": "application/xml" });
+        res.end(
+            [
+                "<ListBucketResult>",
+                `<IsTruncated>${truncated}</IsTruncated>`,
+                keys[index]
+                    ? `<Contents><Key>${keys[index]}</Key></Contents>`
+                    : "",
+                truncated
+                    ? `<NextContinuationToken>${
+                          index + 1
+                      }</NextContinuationToken>`
+                    : "",
+                "</ListBucketResult>",
+            ].join("")
+        );
+    }
+}
+
+describe("BackupArchiveProvider", () => {
+    let server: BucketServer;
+    let location: ArchiveLocation;
+
+    before(async () => {
+        server = new BucketServer([
+            "botpress/botpress/main-server/main-server-20211201T030000Z.tar.gz",
+            "botpress/botpress/main-server/main-server-20211203T030000Z.tar.gz",
+            "botpress/botpress/main-server/main-server-20211202T030000Z.tar.gz",
+            // An archive in a "subdirectory" isn't one of the location.
+            "botpress/botpress/main-server/old/main-server-20211204T030000Z.tar.gz",
+            "botpress/botpress/lang-server/lang-server-20211205T030000Z.tar.gz",
+        ]);
+        location = {
+            endpoint: await server.start(),
+            region: "us-east-1",
+            bucket: "backups",
+            prefix: "botpress/botpress/main-server",
+        };
+    });
+
+    after(() => server.stop());
+
+    it("lists the archives of the location across pages", async () => {
+        const archives = await listArchives(location, CREDENTIALS);
+        assert.deepStrictEqual(archives, [
+            "main-server-20211201T030000Z.tar.gz",
+            "main-server-20211203T030000Z.tar.gz",
+            "main-server-20211202T030000Z.tar.gz",
+        ]);
+        assert.deepStrictEqual(
+            server.requests.map((req) => req.url),
+            [
+                "/backups?list-type=2&prefix=botpress%2Fbotpress%2Fmain-server%2F",
+                "/backups?continuation-token=1&list-type=2&prefix=botpress%2Fbotpress%2Fmain-server%2F",
+                "/backups?continuation-token=2&list-type=2&prefix=botpress%2Fbotpress%2Fmain-server%2F",
+                "/backups?continuation-token=3&list-type=2&prefix=botpress%2Fbotpress%2Fmain-server%2F",
+            ]
+        );
+    });
+
+    it("resolves latest to the most recent archive", async () => {
+        const result = await new BackupArchiveProvider().create({
+            location,
+            credentials: CREDENTIALS,
+            archive: "latest",
+        });
+        assert.strictEqual(result.id, "main-server-20211203T030000Z.tar.gz");
+        assert.strictEqual(
+            result.outs.archiveName,
+            "main-server-20211203T030000Z.tar.gz"
+        );
+        assert.strictEqual(result.outs.credentials, undefined);
+    });
+
+    it("keeps an archive given by name", async () => {
+        const requests = server.requests.length;
+        const result = await new BackupArchiveProvider().create({
+            location,
+            credentials: CREDENTIALS,
+            archive: "main-server-20211201T030000Z.tar.gz",
+        });
+        assert.strictEqual(
+            result.outs.archiveName,
+            "main-server-20211201T030000Z.tar.gz"
+        );
+        assert.strictEqual(server.requests.length, requests);
+    });
+
+    it("fails when there is no archive to restore", async () => {
+        await assert.rejects(
+            new BackupArchiveProvider().create({
+                location: { ...location, prefix: "botpress/other/main-server" },
+                credentials: CREDENTIALS,
+                archive: "latest",
+            }),
+            /There is no archive to restore in backups\/botpress\/other\/main-server/
+        );
+    });
+
+    it("replaces the archive when another one is asked for", async () => {
+        const olds = { location, credentials: CREDENTIALS, archive: "latest" };
+        const rotated = {
+            ...olds,
+            credentials: { ...CREDENTIALS, secretAccessKey: "rotated" },
+        };
+        const provider = new BackupArchiveProvider();
+        assert.deepStrictEqual(await provider.diff("id", olds, rotated), {
+            changes: false,
+            replaces: [],
+        });
+        assert.deepStrictEqual(
+            await provider.diff("id", olds, {
+                ...olds,
+                archive: "main-server-20211201T030000Z.tar.gz",
+            }),
+            { changes: true, replaces: ["archive"] }
+        );
+    });
+});
@@ -0,0 +1,276 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+
+import {
+    BotInputs,
+    BotProvider,
+    BotpressAdminConnection,
+    WorkspaceUserInputs,
+    WorkspaceUserProvider,
+    hashFile,
+} from "../botpressAdmin";
+
+const EMAIL = "admin@example.com";
+const PASSWORD = "hunter2";
+const TOKEN = "jwt-token";
+
+interface ReceivedRequest {
+    method: string;
+    url: string;
+    workspace: string | undefined;
+    body: Buffer;
+}
+
+/**
+ * A stand-in for the admin API of a Botpress server, with the endpoints
+ * the providers use.
+ */
+class AdminServer {
+    public readonly requests: ReceivedRequest[] = [];
+    public readonly bots = new Map<string, Buffer>();
+    public readonly users = new Map<string, string>();
+    private server = http.createServer((req, res) => this.handle(req, res));
+
+    async start(): Promise<string> {
+        await new Promise<void>((resolve) =>
+            this.server.listen(0, "127.0.0.1", resolve)
+        );
+        const address = this.server.address() as { port: number };
+        return `http://127.0.0.1:${address.port}`;
+    }
+
+    stop(): Promise<void> {
+        return new Promise((resolve) => this.server.close(() => resolve()));
+    }
+
+    private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk) => chunks.push(chunk));
+        req.on("end", () => {
+            const body = Buffer.concat(chunks);
+            this.requests.push({
+                method: req.method!,
+                url: req.url!,
+                workspace: req.headers["x-bp-workspace"] as string,
+                body,
+            });
+            const reply = (status: number, payload?: unknown) => {
+                res.writeHead(status, { "Content-Type": "application/json" });
+                res.end(JSON.stringify({ payload }));
+            };
+
+            if (req.url === "/api/v2/admin/auth/login/basic/default") {
+                const { email, password } = JSON.parse(body.toString());
+                return email === EMAIL && password === PASSWORD
+                    ? reply(200, { jwt: TOKEN })
+                    : reply(401);
+            }
+            if (req.headers.authorization !== `Bearer ${TOKEN}`) {
+                return reply(401);
+            }
+
+            let match =
+                /^\/api\/v2\/admin\/workspace\/bots\/([^/]+)\/import\?overwrite=true$/.exec(
+                    req.url!
+                );
+            if (match) {
+                this.bots.set(match[1], body);
+                return reply(200);
+            }
+            match = /^\/api\/v2\/admin\/workspace\/bots\/([^/]+)\/delete$/.exec(
+                req.url!
+            );
+            if (match) {
+                return this.bots.delete(match[1]) ? reply(200) : reply(404);
+            }
+            if (req.url === "/api/v2/admin/workspace/users") {
+                const { email, strategy, role } = JSON.parse(body.toString());
+                this.users.set(`${strategy}/${email}`, role);
+                return reply(200, { email, tempPassword: "temp-password" });
+            }
+            if (
+                req.url ===
+                "/api/v2/admin/workspace/users/workspace/update_role"
+            ) {
+                const { email, strategy, role } = JSON.parse(body.toString());
+                this.users.set(`${strategy}/${email}`, role);
+                return reply(200);
+            }
+            match =
+                /^\/api\/v2\/admin\/workspace\/users\/([^/]+)\/([^/]+)\/delete$/.exec(
+                    req.url!
+                );
+            if (match) {
+                const key = `${match[1]}/${decodeURIComponent(match[2])}`;
+                return this.users.delete(key) ? reply(200) : reply(404);
+            }
+            reply(404);
+        });
+    }
+}
+
+describe("Botpress admin providers", () => {
+    const server = new AdminServer();
+    let connection: BotpressAdminConnection;
+    let archivePath: string;
+
+    before(async () => {
+        const url = await server.start();
+        connection = { url, email: EMAIL, password: PASSWORD };
+        archivePath = path.join(
+            fs.mkdtempSync(path.join(os.tmpdir(), "botpress-")),
+            "welcome-bot.tgz"
+        );
+        fs.writeFileSync(archivePath, "version 1");
+    });
+
+    after(() => server.stop());
+
+    describe("BotProvider", () => {
+        const provider = new BotProvider();
+        let inputs: BotInputs;
+
+        before(() => {
+            inputs = {
+                connection,
+                botId: "welcome-bot",
+                archivePath,
+                archiveHash: hashFile(archivePath),
+            };
+        });
+
+        it("imports the archive into the default workspace", async () => {
+            const result = await provider.create(inputs);
+
+            assert.strictEqual(result.id, "welcome-bot");
+            assert.strictEqual(result.outs.connection.password, undefined);
+            assert.strictEqual(
+                server.bots.get("welcome-bot")?.toString(),
+                "version 1"
+            );
+            assert.strictEqual(
+                server.requests[server.requests.length - 1].workspace,
+                "default"
+            );
+        });
+
+        it("re-imports the bot when the archive changes", async () => {
+            fs.writeFileSync(archivePath, "version 2");
+            const news = { ...inputs, archiveHash: hashFile(archivePath) };
+
+            const diff = await provider.diff("welcome-bot", inputs, news);
+            assert.deepStrictEqual(diff, { changes: true, replaces: [] });
+
+            await provider.update("welcome-bot", inputs, news);
+            assert.strictEqual(
+                server.bots.get("welcome-bot")?.toString(),
+                "version 2"
+            );
+        });
+
+        it("doesn't re-import an unchanged archive", async () => {
+            const diff = await provider.diff("welcome-bot", inputs, {
+                ...inputs,
+            });
+            assert.deepStrictEqual(diff, { changes: false, replaces: [] });
+        });
+
+        it("ignores the changes of the credentials", async () => {
+            const diff = await provider.diff("welcome-bot", inputs, {
+                ...inputs,
+                connection: { ...connection, password: "rotated" },
+            });
+            assert.deepStrictEqual(diff, { changes: false, replaces: [] });
+        });
+
+        it("replaces the bot when its ID changes", async () => {
+            const diff = await provider.diff("welcome-bot", inputs, {
+                ...inputs,
+                botId: "other-bot",
+            });
+            assert.deepStrictEqual(diff.replaces, ["botId"]);
+        });
+
+        it("deletes the bot with the password of the stack config", async () => {
+            const configured = new BotProvider();
+            await configured.configure({
+                config: {
+                    get: (key) =>
+                        key === "superAdminPassword" ? PASSWORD : undefined,
+                    require: () => PASSWORD,
+                },
+            });
+            const { password, ...stored } = connection;
+            await configured.delete("welcome-bot", {
+                ...inputs,
+                connection: stored,
+            });
+            assert.ok(!server.bots.has("welcome-bot"));
+        });
+
+        it("fails with the response of a rejected login", async () => {
+            await assert.rejects(
+                provider.create({
+                    ...inputs,
+                    connection: { ...connection, password: "wrong" },
+                }),
+                /login\/basic\/default failed with 401/
+            );
+        });
+    });
+
+    describe("WorkspaceUserProvider", () => {
+        const provider = new WorkspaceUserProvider();
+        let inputs: WorkspaceUserInputs;
+
+        before(() => {
+            inputs = { connection, email: "dev@example.com", role: "dev" };
+        });
+
+        it("creates the user and returns its temporary password", async () => {
+            const result = await provider.create(inputs);
+
+            assert.strictEqual(result.id, "default/dev@example.com");
+            assert.strictEqual(result.outs.tempPassword, "temp-password");
+            assert.strictEqual(result.outs.connection.password, undefined);
+            assert.strictEqual(
+                server.users.get("default/dev@example.com"),
+                "dev"
+            );
+        });
+
+        it("changes the role in place", async () => {
+            const olds = { ...inputs, tempPassword: "temp-password" };
+            const news = { ...inputs, role: "admin" };
+            const diff = await provider.diff(
+                "default/dev@example.com",
+                olds,
+                news
+            );
+            assert.deepStrictEqual(diff, { changes: true, replaces: [] });
+
+            const result = await provider.update(
+                "default/dev@example.com",
+                olds,
+                news
+            );
+            assert.strictEqual(result.outs?.connection.password, undefined);
+            assert.strictEqual(result.outs.tempPassword, "temp-password");
+            assert.strictEqual(
+                server.users.get("default/dev@example.com"),
+                "admin"
+            );
+        });
+
+        it("deletes the user", async () => {
+            await provider.delete("default/dev@example.com", {
+                ...inputs,
+                tempPassword: "temp-password",
+            });
+            assert.ok(!server.users.has("default/dev@example.com"));
+        });
+    });
+});
@@ -0,0 +1,117 @@
+import * as assert from "assert";
+import * as pulumi from "@pulumi/pulumi";
+
+import { StackConfig, loadStackConfig } from "../config";
+
+/**
+ * Loads the stack config from the given values of the `botpress` keys,
+ * with the objects set as JSON like `pulumi config set --path` does.
+ */
+function loadConfig(values: Record<string, unknown>): StackConfig {
+    const config: Record<string, string> = {
+        "botpress:botpressServerVersion": "v12_26_8",
+    };
+    for (const [key, value] of Object.entries(values)) {
+        config[`botpress:${key}`] =
+            typeof value === "string" ? value : JSON.stringify(value);
+    }
+    pulumi.runtime.setAllConfig(config);
+    return loadStackConfig(new pulumi.Config("botpress"));
+}
+
+describe("loadStackConfig", () => {
+    it("reports the sections that aren't objects", () => {
+        assert.throws(
+            () =>
+                loadConfig({
+                    langServer: {
+                        probes: { liveness: null },
+                        resources: "1Gi",
+                        autoscaling: 3,
+                    },
+                    mainServer: { databasePool: 5 },
+                }),
+            (err: Error) => {
+                for (const key of [
+                    "langServer.probes.liveness",
+                    "langServer.resources",
+                    "langServer.autoscaling",
+                    "mainServer.databasePool",
+                ]) {
+                    assert.ok(
+                        err.message.includes(`${key}: must be an object.`),
+                        err.message
+                    );
+                }
+                return true;
+            }
+        );
+    });
+
+    it("requires the database storage of an autoscaled main server", () => {
+        assert.throws(
+            () =>
+                loadConfig({
+                    mainServer: {
+                        autoscaling: { minReplicas: 1, maxReplicas: 3 },
+                    },
+                }),
+            /mainServer.autoscaling.maxReplicas: more than 1 replica requires mainServer.bpfsStorage to be database./
+        );
+    });
+
+    it("requires the external egress the isolated pods need", () => {
+        assert.throws(
+            () =>
+                loadConfig({
+                    networkPolicies: { enabled: true },
+                    langServer: {
+                        preseed: { url: "https://example.com/embeddings" },
+                    },
+                }),
+            /networkPolicies.externalEgress: is required when networkPolicies.enabled is set, since the language server downloads its models, and langServer.preseed.url is downloaded./
+        );
+        const config = loadConfig({
+            networkPolicies: { enabled: true },
+            langServer: { offline: true },
+        });
+        assert.deepStrictEqual(config.networkPolicies.externalEgress, []);
+    });
+
+    it("reserves the name of the default node pool", () => {
+        const pool = { size: "s-2vcpu-4gb" };
+        assert.throws(
+            () =>
+                loadConfig({
+                    cluster: {
+                        nodePools: [
+                            { ...pool, name: "default-pool" },
+                            { ...pool, name: "lang-server" },
+                            { ...pool, name: "lang-server" },
+                        ],
+                    },
+                }),
+            (err: Error) => {
+                assert.ok(
+                    err.message.includes(
+                        "cluster.nodePools: the name default-pool is reserved for the default node pool."
+                    ),
+                    err.message
+                );
+                assert.ok(
+                    !err.message.includes(
+                        "default-pool is used more than once"
+                    ),
+                    err.message
+                );
+                assert.ok(
+                    err.message.includes(
+                        "cluster.nodePools: the name lang-server is used more than once."
+                    ),
+                    err.message
+                );
+                return true;
+            }
+        );
+    });
+});
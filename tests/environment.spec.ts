@@ -0,0 +1,72 @@
+import * as assert from "assert";
+
+import {
+    Environment,
+    diffConfig,
+    loadEnvironment,
+    toStackConfig,
+} from "../environment";
+
+describe("environment", () => {
+    const staging: Environment = {
+        config: {
+            botpressServerVersion: "v12_26_8",
+            cluster: { provider: "kubeconfig" },
+            "digitalocean:region": "sfo2",
+        },
+        secrets: { kubeconfig: "STAGING_KUBECONFIG" },
+    };
+    const production: Environment = {
+        config: {
+            botpressServerVersion: "v12_26_8",
+            cluster: { provider: "doks", nodeCount: 3 },
+            customDomain: "bots.example.com",
+        },
+        secrets: { "digitalocean:token": "DIGITALOCEAN_TOKEN" },
+    };
+
+    it("loads an environment from its file", () => {
+        const dev = loadEnvironment("dev");
+        assert.strictEqual(dev.config.botpressServerVersion, "v12_26_8");
+    });
+
+    it("refuses the names that aren't environments", () => {
+        assert.throws(() => loadEnvironment("../index"), /not a valid/);
+    });
+
+    it("sets the objects of the config as JSON in the project namespace", () => {
+        const config = toStackConfig(staging, {
+            STAGING_KUBECONFIG: "apiVersion: v1",
+        });
+
+        assert.deepStrictEqual(config, {
+            "botpress:botpressServerVersion": { value: "v12_26_8" },
+            "botpress:cluster": { value: '{"provider":"kubeconfig"}' },
+            "digitalocean:region": { value: "sfo2" },
+            "botpress:kubeconfig": { value: "apiVersion: v1", secret: true },
+        });
+    });
+
+    it("reports the missing secrets", () => {
+        assert.throws(
+            () => toStackConfig(staging, {}),
+            /STAGING_KUBECONFIG \(kubeconfig\)/
+        );
+    });
+
+    it("compares the config of two environments without the secrets", () => {
+        assert.deepStrictEqual(diffConfig(staging, production), {
+            added: {
+                "botpress:customDomain": "bots.example.com",
+                "digitalocean:token": "[secret from $DIGITALOCEAN_TOKEN]",
+            },
+            removed: ["botpress:kubeconfig", "digitalocean:region"],
+            changed: {
+                "botpress:cluster": {
+                    from: '{"provider":"kubeconfig"}',
+                    to: '{"provider":"doks","nodeCount":3}',
+                },
+            },
+        });
+    });
+});
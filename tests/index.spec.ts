@@ -0,0 +1,195 @@
+import * as assert from "assert";
+import * as pulumi from "@pulumi/pulumi";
+
+import { LOAD_BALANCER_IP, MockedProgram, promiseOf } from "./mocks";
+
+describe("index.ts", () => {
+    const program = new MockedProgram();
+    let stack: typeof import("../index");
+
+    before(async () => {
+        await pulumi.runtime.setMocks(
+            program,
+            "botpress",
+            "test",
+            false,
+            "organization"
+        );
+        pulumi.runtime.setAllConfig(
+            {
+                "botpress:botpressServerVersion": "v12_26_8",
+                "botpress:ingressControllerVersion": "4.0.13",
+                "botpress:cluster": JSON.stringify({ provider: "kubeconfig" }),
+                "botpress:kubeconfig": "apiVersion: v1\nkind: Config\n",
+            },
+            ["botpress:kubeconfig"]
+        );
+        program.stackOutputs = { botpressServerVersion: "v12_20_0" };
+
+        stack = await import("../index");
+    });
+
+    it("exports the IP of the ingress controller's load balancer", async () => {
+        assert.strictEqual(await promiseOf(stack.ingressIp), LOAD_BALANCER_IP);
+    });
+
+    it("exports the URL of the server", async () => {
+        assert.strictEqual(
+            await promiseOf(stack.botpressUrl),
+            `http://${LOAD_BALANCER_IP}`
+        );
+    });
+
+    it("deploys the app services of the instance into the apps namespace", async () => {
+        for (const name of [
+            "botpress-lang-server",
+            "botpress-duckling",
+            "botpress-server",
+        ]) {
+            const deployment = await program.getResource(
+                "kubernetes:apps/v1:Deployment",
+                name
+            );
+            assert.strictEqual(deployment.inputs.metadata.namespace, "apps");
+            assert.match(deployment.provider!, /::byoK8s::/);
+        }
+    });
+
+    it("wires the main server to the language server and Duckling", async () => {
+        const deployment = await program.getResource(
+            "kubernetes:apps/v1:Deployment",
+            "botpress-server"
+        );
+        const container = deployment.inputs.spec.template.spec.containers[0];
+        const env: Record<string, string> = {};
+        for (const e of container.env) {
+            env[e.name] = e.value;
+        }
+
+        assert.strictEqual(
+            env.BP_MODULE_NLU_LANGUAGESOURCES,
+            '[{ "endpoint": "http://botpress-lang-server-service.apps:3100" }]'
+        );
+        assert.strictEqual(
+            env.BP_MODULE_NLU_DUCKLINGURL,
+            "http://botpress-duckling-service.apps:8000"
+        );
+        assert.deepStrictEqual(container.args, ["-c", "./bp"]);
+    });
+
+    it("upgrades from the version of its own last update", async () => {
+        const reference = await program.getResource(
+            "pulumi:pulumi:StackReference",
+            "deployed-stack"
+        );
+        assert.strictEqual(reference.inputs.name, "organization/botpress/test");
+
+        const deployment = await program.getResource(
+            "kubernetes:apps/v1:Deployment",
+            "botpress-server"
+        );
+        assert.strictEqual(
+            deployment.inputs.spec.template.spec.containers[0].image,
+            "botpress/server:v12_26_8"
+        );
+    });
+
+    it("deploys the ingress controller into its own namespace", async () => {
+        const service = await program.getResource(
+            "kubernetes:core/v1:Service",
+            "app-svcs/nginx-ingress-nginx-controller"
+        );
+        assert.strictEqual(service.inputs.metadata.namespace, "app-svcs");
+    });
+
+    it("creates no DO resources on an existing cluster", async () => {
+        await program.getResource(
+            "kubernetes:networking.k8s.io/v1:Ingress",
+            "botpress-root-ingress"
+        );
+
+        assert.strictEqual(
+            program.findResource(
+                "digitalocean:index/kubernetesCluster:KubernetesCluster",
+                "botpressCluster"
+            ),
+            undefined
+        );
+        assert.strictEqual(
+            program.findResource(
+                "digitalocean:index/domain:Domain",
+                "botpress-domain"
+            ),
+            undefined
+        );
+    });
+});
+
+describe("index.ts rendering the manifests", () => {
+    const program = new MockedProgram();
+    let stack: typeof import("../index");
+
+    before(async () => {
+        // Nothing reports the status of the rendered Service.
+        program.loadBalancerIngress = [];
+        await pulumi.runtime.setMocks(
+            program,
+            "botpress",
+            "rendered",
+            false,
+            "organization"
+        );
+        pulumi.runtime.setAllConfig({
+            "botpress:botpressServerVersion": "v12_26_8",
+            "botpress:cluster": JSON.stringify({
+                provider: "render",
+                renderDirectory: "manifests",
+            }),
+            "botpress:ingress": JSON.stringify({ ip: "203.0.113.10" }),
+            "botpress:customDomain": "bots.example.com",
+        });
+
+        delete require.cache[require.resolve("../index")];
+        stack = await import("../index");
+    });
+
+    it("writes the manifests to the directory", async () => {
+        const provider = await program.getResource(
+            "pulumi:providers:kubernetes",
+            "renderK8s"
+        );
+        assert.strictEqual(provider.inputs.renderYamlToDirectory, "manifests");
+
+        const deployment = await program.getResource(
+            "kubernetes:apps/v1:Deployment",
+            "botpress-server"
+        );
+        assert.match(deployment.provider!, /::renderK8s::/);
+    });
+
+    it("takes the ingress endpoint from the config", async () => {
+        assert.strictEqual(await promiseOf(stack.ingressIp), "203.0.113.10");
+    });
+
+    it("creates no DO cluster", async () => {
+        await program.getResource(
+            "kubernetes:networking.k8s.io/v1:Ingress",
+            "botpress-root-ingress"
+        );
+
+        assert.strictEqual(
+            program.findResource(
+                "digitalocean:index/kubernetesCluster:KubernetesCluster",
+                "botpressCluster"
+            ),
+            undefined
+        );
+        assert.strictEqual(
+            program.findResource(
+                "digitalocean:index/domain:Domain",
+                "botpress-domain"
+            ),
+            undefined
+        );
+    });
+});
@@ -0,0 +1,326 @@
+import * as assert from "assert";
+import * as pulumi from "@pulumi/pulumi";
+
+import { RouteTable } from "../appService";
+import { IngressController, RouteTarget } from "../ingressController";
+import { LoadBalancerIngressController } from "../loadBalancerIngressController";
+import { NginxIngressController } from "../nginxIngressController";
+import { TraefikIngressController } from "../traefikIngressController";
+import { LOAD_BALANCER_IP, MockedProgram, promiseOf } from "./mocks";
+
+async function createIngressController(
+    program: MockedProgram
+): Promise<IngressController> {
+    // The metrics Service carries the same labels as the controller's one.
+    program.chartObjects["ingress-nginx"].push({
+        apiVersion: "v1",
+        kind: "Service",
+        metadata: {
+            name: "nginx-ingress-nginx-controller-metrics",
+            labels: {
+                "app.kubernetes.io/name": "ingress-nginx",
+                "app.kubernetes.io/component": "controller",
+            },
+        },
+        spec: { type: "ClusterIP" },
+    });
+    await pulumi.runtime.setMocks(program, "botpress", "test");
+
+    return new NginxIngressController("ingress-controller", {
+        version: "4.0.13",
+        metrics: true,
+    });
+}
+
+/**
+ * Returns the error the output fails with.
+ */
+async function errorOf(output: pulumi.Output<any>): Promise<Error> {
+    try {
+        await (output as any).promise();
+    } catch (err) {
+        return err as Error;
+    }
+    throw new Error("The output did not fail.");
+}
+
+/**
+ * Returns the route table of a main server, and the target of its routes.
+ */
+function getRoutes(
+    ingressController: IngressController
+): [RouteTable, RouteTarget] {
+    const table: RouteTable = {
+        ingressController,
+        port: 3000,
+        host: "bots.example.com",
+        sessionCookieName: "bp-server-route",
+        routes: [
+            {
+                name: "assets",
+                path: "/.+/assets/.*",
+                pathType: "ImplementationSpecific",
+                cache: { validity: "30m", maxAge: 30 },
+            },
+            {
+                name: "socketio",
+                path: "/socket.io/",
+                pathType: "Prefix",
+                websocket: true,
+                stickySessions: true,
+            },
+            {
+                name: "upload",
+                path: "/api/v1/bots/upload",
+                pathType: "Exact",
+                bodySize: "50m",
+                timeouts: { connect: 5, read: 300 },
+            },
+        ],
+    };
+    const target: RouteTarget = {
+        getResourceName: (name) => `botpress-${name}`,
+        namespace: "apps",
+        labels: { app: "botpress-server" },
+        serviceName: "botpress-server-service",
+        podSelector: { app: "botpress-server" },
+        parent: new pulumi.ComponentResource("app-service", "main-server"),
+        getLegacyAliases: () => [],
+    };
+    return [table, target];
+}
+
+describe("IngressController", () => {
+    describe("with a load balancer IP", () => {
+        const program = new MockedProgram();
+        let ingressController: IngressController;
+
+        before(async () => {
+            ingressController = await createIngressController(program);
+        });
+
+        it("finds the controller's LoadBalancer Service by its labels", async () => {
+            assert.deepStrictEqual(
+                await promiseOf(ingressController.getEndpoint()),
+                { ip: LOAD_BALANCER_IP, hostname: undefined }
+            );
+            assert.strictEqual(
+                await promiseOf(ingressController.getAddress()),
+                LOAD_BALANCER_IP
+            );
+        });
+    });
+
+    describe("with a load balancer hostname", () => {
+        const program = new MockedProgram();
+        let ingressController: IngressController;
+
+        before(async () => {
+            program.loadBalancerIngress = [{ hostname: "lb.example.com" }];
+            ingressController = await createIngressController(program);
+        });
+
+        it("uses the hostname as the address", async () => {
+            assert.strictEqual(
+                await promiseOf(ingressController.getAddress()),
+                "lb.example.com"
+            );
+        });
+
+        it("refuses to return an IP", async () => {
+            const err = await errorOf(ingressController.getIp());
+            assert.match(err.message, /only has the hostname lb\.example\.com/);
+        });
+    });
+
+    describe("without a provisioned load balancer", () => {
+        const program = new MockedProgram();
+        let ingressController: IngressController;
+
+        before(async () => {
+            program.loadBalancerIngress = [];
+            ingressController = await createIngressController(program);
+        });
+
+        it("fails with a clear error", async () => {
+            const err = await errorOf(ingressController.getEndpoint());
+            assert.match(
+                err.message,
+                /Service app-svcs\/nginx-ingress-nginx-controller has no IP or hostname/
+            );
+        });
+    });
+});
+
+describe("TraefikIngressController", () => {
+    const program = new MockedProgram();
+    let ingressController: TraefikIngressController;
+
+    before(async () => {
+        program.chartObjects["traefik"] = [
+            {
+                apiVersion: "v1",
+                kind: "Service",
+                metadata: {
+                    name: "traefik",
+                    labels: { "app.kubernetes.io/name": "traefik" },
+                },
+                spec: { type: "LoadBalancer" },
+            },
+        ];
+        await pulumi.runtime.setMocks(program, "botpress", "test");
+
+        ingressController = new TraefikIngressController("ingress-controller", {
+            version: "10.19.4",
+        });
+        const [table, target] = getRoutes(ingressController);
+        ingressController.createRoutes(table, target);
+    });
+
+    async function getIngressRoute(name: string): Promise<any> {
+        const route = await program.getResource(
+            "kubernetes:traefik.containo.us/v1alpha1:IngressRoute",
+            name
+        );
+        return route.inputs.spec.routes[0];
+    }
+
+    it("finds Traefik's LoadBalancer Service by its labels", async () => {
+        assert.strictEqual(
+            await promiseOf(ingressController.getAddress()),
+            LOAD_BALANCER_IP
+        );
+    });
+
+    it("matches the regex paths by prefix, with the cache headers", async () => {
+        const route = await getIngressRoute("botpress-assets-route");
+        assert.strictEqual(
+            route.match,
+            "Host(`bots.example.com`) && PathPrefix(`/{path:.+/assets/.*}`)"
+        );
+        assert.deepStrictEqual(
+            route.middlewares.map((m: any) => m.name),
+            ["security-headers", "botpress-assets-cache"]
+        );
+
+        const cache = await program.getResource(
+            "kubernetes:traefik.containo.us/v1alpha1:Middleware",
+            "botpress-assets-cache"
+        );
+        assert.deepStrictEqual(cache.inputs.spec.headers, {
+            customResponseHeaders: { "Cache-Control": "max-age=30" },
+        });
+    });
+
+    it("pins the socket.io clients to a pod with a cookie", async () => {
+        const route = await getIngressRoute("botpress-socketio-route");
+        assert.deepStrictEqual(route.services[0].sticky, {
+            cookie: { name: "bp-server-route", httpOnly: true },
+        });
+    });
+
+    it("applies the body size and the timeouts of a route", async () => {
+        const route = await getIngressRoute("botpress-upload-route");
+        assert.strictEqual(
+            route.match,
+            "Host(`bots.example.com`) && Path(`/api/v1/bots/upload`)"
+        );
+        assert.strictEqual(
+            route.services[0].serversTransport,
+            "botpress-upload-transport"
+        );
+
+        const bodySize = await program.getResource(
+            "kubernetes:traefik.containo.us/v1alpha1:Middleware",
+            "botpress-upload-body-size"
+        );
+        assert.strictEqual(
+            bodySize.inputs.spec.buffering.maxRequestBodyBytes,
+            50 * 1024 * 1024
+        );
+        const transport = await program.getResource(
+            "kubernetes:traefik.containo.us/v1alpha1:ServersTransport",
+            "botpress-upload-transport"
+        );
+        assert.deepStrictEqual(transport.inputs.spec.forwardingTimeouts, {
+            dialTimeout: "5s",
+            responseHeaderTimeout: "300s",
+        });
+    });
+});
+
+describe("LoadBalancerIngressController", () => {
+    const program = new MockedProgram();
+    let ingressController: LoadBalancerIngressController;
+
+    before(async () => {
+        await pulumi.runtime.setMocks(program, "botpress", "test");
+
+        ingressController = new LoadBalancerIngressController(
+            "ingress-controller",
+            { version: "", namespace: "apps" }
+        );
+    });
+
+    it("exposes the main server with its own load balancer", async () => {
+        const service = await program.getResource(
+            "kubernetes:core/v1:Service",
+            "ingress-controller-load-balancer"
+        );
+        assert.strictEqual(service.inputs.metadata.namespace, "apps");
+        assert.strictEqual(service.inputs.spec.type, "LoadBalancer");
+        assert.deepStrictEqual(service.inputs.spec.selector, {
+            "app.kubernetes.io/part-of": "botpress",
+            "app.kubernetes.io/component": "main-server",
+        });
+        assert.deepStrictEqual(service.inputs.spec.ports, [
+            { name: "http", port: 80, targetPort: "http" },
+        ]);
+        assert.strictEqual(service.inputs.spec.sessionAffinity, "ClientIP");
+        // The endpoint doesn't wait for the routes.
+        assert.strictEqual(
+            await promiseOf(ingressController.getAddress()),
+            LOAD_BALANCER_IP
+        );
+    });
+
+    it("creates no namespace", () => {
+        assert.ok(
+            !program.isConstructed("kubernetes:core/v1:Namespace", "app-svcs")
+        );
+    });
+
+    it("only exposes a single app service", () => {
+        const [table, target] = getRoutes(ingressController);
+        ingressController.createRoutes(table, target);
+        assert.throws(
+            () => ingressController.createRoutes(table, target),
+            /ingress.backend: load-balancer can only expose a single main server/
+        );
+    });
+
+    it("only warns about the settings of the configured routes", () => {
+        const [table, target] = getRoutes(
+            new LoadBalancerIngressController("other-ingress-controller", {
+                version: "",
+                namespace: "apps",
+            })
+        );
+        const warnings: string[] = [];
+        const warn = pulumi.log.warn;
+        pulumi.log.warn = async (msg: string) => {
+            warnings.push(msg);
+        };
+        try {
+            table.ingressController.createRoutes(
+                { ...table, defaultRoutes: ["assets", "socketio"] },
+                target
+            );
+        } finally {
+            pulumi.log.warn = warn;
+        }
+        assert.deepStrictEqual(warnings, [
+            "The load-balancer ingress backend ignores the host, cache, body size and timeouts of the upload routes.",
+        ]);
+    });
+});
@@ -0,0 +1,512 @@
+import * as assert from "assert";
+import * as pulumi from "@pulumi/pulumi";
+
+import { LangServer } from "../langServer";
+import { MockedProgram, promiseOf, resourceKey, unwrapSecret } from "./mocks";
+
+describe("LangServer", () => {
+    let program: MockedProgram;
+    let langServer: LangServer;
+
+    before(async () => {
+        program = new MockedProgram();
+        await pulumi.runtime.setMocks(program, "botpress", "test");
+
+        langServer = new LangServer(
+            {
+                instanceName: "botpress",
+                namespace: pulumi.output("apps"),
+                numReplicas: 1,
+                storageSize: "5Gi",
+                botpressServerVersion: "v12_26_8",
+            },
+            { transformations: program.transformations }
+        );
+    });
+
+    it("builds the service endpoint from the service name and namespace", async () => {
+        const endpoint = await promiseOf(langServer.getServiceEndpoint());
+        assert.strictEqual(
+            endpoint,
+            "http://botpress-lang-server-service.apps:3100"
+        );
+    });
+
+    it("runs the language server with the embeddings on its volume", async () => {
+        const deployment = await program.getResource(
+            "kubernetes:apps/v1:Deployment",
+            "botpress-lang-server"
+        );
+        const podSpec = deployment.inputs.spec.template.spec;
+        const container = podSpec.containers[0];
+
+        assert.strictEqual(container.image, "botpress/server:v12_26_8");
+        assert.deepStrictEqual(container.args, [
+            "-c",
+            "./bp lang --langDir /botpress/data/embeddings",
+        ]);
+        assert.strictEqual(container.volumeMounts.length, 1);
+        assert.strictEqual(
+            container.volumeMounts[0].mountPath,
+            "/botpress/data"
+        );
+
+        const volume = podSpec.volumes.find(
+            (v: any) => v.name === container.volumeMounts[0].name
+        );
+        assert.strictEqual(
+            volume.persistentVolumeClaim.claimName,
+            "botpress-lang-server-pvc-rw"
+        );
+    });
+
+    it("labels its pods with the instance and component", async () => {
+        const deployment = await program.getResource(
+            "kubernetes:apps/v1:Deployment",
+            "botpress-lang-server"
+        );
+        assert.deepStrictEqual(
+            deployment.inputs.spec.template.metadata.labels,
+            {
+                app: "botpress-lang-server",
+                "app.kubernetes.io/part-of": "botpress",
+                "app.kubernetes.io/instance": "botpress",
+                "app.kubernetes.io/component": "lang-server",
+            }
+        );
+        assert.deepStrictEqual(deployment.inputs.spec.selector.matchLabels, {
+            app: "botpress-lang-server",
+        });
+    });
+
+    it("checks the health of the language server on /info", async () => {
+        const deployment = await program.getResource(
+            "kubernetes:apps/v1:Deployment",
+            "botpress-lang-server"
+        );
+        const container = deployment.inputs.spec.template.spec.containers[0];
+
+        for (const probe of [
+            container.startupProbe,
+            container.readinessProbe,
+            container.livenessProbe,
+        ]) {
+            assert.deepStrictEqual(probe.httpGet, {
+                path: "/info",
+                port: 3100,
+            });
+        }
+    });
+
+    it("parents all of its resources to the component", () => {
+        const component = resourceKey("app-service", "botpress-lang-server");
+        for (const [type, name] of [
+            [
+                "kubernetes:core/v1:PersistentVolumeClaim",
+                "botpress-lang-server-pvc-rw",
+            ],
+            ["kubernetes:apps/v1:Deployment", "botpress-lang-server"],
+            ["kubernetes:core/v1:Service", "botpress-lang-server-service"],
+        ]) {
+            assert.strictEqual(program.getParent(type, name), component);
+        }
+    });
+
+    it("creates no autoscaler or backup unless configured", () => {
+        assert.ok(
+            !program.isConstructed(
+                "kubernetes:autoscaling/v2beta2:HorizontalPodAutoscaler",
+                "botpress-lang-server-hpa"
+            )
+        );
+        assert.ok(
+            !program.isConstructed(
+                "volume-backup",
+                "botpress-lang-server-backup"
+            )
+        );
+    });
+});
+
+describe("LangServer with pre-seeded embeddings", () => {
+    let program: MockedProgram;
+
+    before(async () => {
+        program = new MockedProgram();
+        await pulumi.runtime.setMocks(program, "botpress", "test");
+
+        new LangServer(
+            {
+                instanceName: "botpress",
+                namespace: pulumi.output("apps"),
+                numReplicas: 1,
+                storageSize: "5Gi",
+                botpressServerVersion: "v12_26_8",
+                languages: ["en", "fr"],
+                dimension: 300,
+                offline: true,
+                modelSource: "/botpress/data/embeddings/index.json",
+                preseed: {
+                    image: "curlimages/curl:7.80.0",
+                    url: "https://example.com/embeddings.tar.gz?signature=s3cr3t",
+                },
+            },
+            { transformations: program.transformations }
+        );
+    });
+
+    async function getPodSpec(): Promise<any> {
+        const deployment = await program.getResource(
+            "kubernetes:apps/v1:Deployment",
+            "botpress-lang-server"
+        );
+        return deployment.inputs.spec.template.spec;
+    }
+
+    it("passes the options to the language server", async () => {
+        const container = (await getPodSpec()).containers[0];
+        assert.deepStrictEqual(container.args, [
+            "-c",
+            "./bp lang --langDir /botpress/data/embeddings --dim 300 --offline --metadataLocation '/botpress/data/embeddings/index.json'",
+        ]);
+    });
+
+    it("pre-seeds the embeddings of the languages onto the volume", async () => {
+        const podSpec = await getPodSpec();
+        const initContainer = podSpec.initContainers[0];
+        const env: Record<string, any> = {};
+        for (const e of initContainer.env) {
+            env[e.name] = e.value ?? e.valueFrom;
+        }
+
+        assert.strictEqual(initContainer.image, "curlimages/curl:7.80.0");
+        assert.strictEqual(env.LANGUAGES, "en fr");
+        assert.strictEqual(env.DIM, "300");
+        assert.strictEqual(env.EMBEDDINGS_DIR, "/botpress/data/embeddings");
+        assert.deepStrictEqual(initContainer.volumeMounts, [
+            {
+                name: "botpress-lang-server-pvc-rw",
+                mountPath: "/botpress/data",
+            },
+        ]);
+        // The volume is only added to the pod once.
+        assert.strictEqual(podSpec.volumes.length, 1);
+    });
+
+    it("keeps the URL of the archive secret", async () => {
+        const initContainer = (await getPodSpec()).initContainers[0];
+        const archiveUrl = initContainer.env.find(
+            (e: any) => e.name === "ARCHIVE_URL"
+        );
+        assert.deepStrictEqual(archiveUrl.valueFrom, {
+            secretKeyRef: {
+                name: "botpress-lang-server-env",
+                key: "ARCHIVE_URL",
+            },
+        });
+    });
+});
+
+describe("LangServer pinned to a node pool", () => {
+    let program: MockedProgram;
+
+    before(async () => {
+        program = new MockedProgram();
+        await pulumi.runtime.setMocks(program, "botpress", "test");
+
+        new LangServer(
+            {
+                instanceName: "botpress",
+                namespace: pulumi.output("apps"),
+                numReplicas: 2,
+                storageSize: "5Gi",
+                botpressServerVersion: "v12_26_8",
+                nodeSelector: { "doks.digitalocean.com/node-pool": "lang" },
+                tolerations: [
+                    {
+                        key: "workload",
+                        operator: "Equal",
+                        value: "lang-server",
+                        effect: "NoSchedule",
+                    },
+                ],
+            },
+            { transformations: program.transformations }
+        );
+    });
+
+    async function getPodSpec(): Promise<any> {
+        const deployment = await program.getResource(
+            "kubernetes:apps/v1:Deployment",
+            "botpress-lang-server"
+        );
+        return deployment.inputs.spec.template.spec;
+    }
+
+    it("runs on the nodes of the pool", async () => {
+        const podSpec = await getPodSpec();
+        assert.deepStrictEqual(podSpec.nodeSelector, {
+            "doks.digitalocean.com/node-pool": "lang",
+        });
+        assert.deepStrictEqual(podSpec.tolerations, [
+            {
+                key: "workload",
+                operator: "Equal",
+                value: "lang-server",
+                effect: "NoSchedule",
+            },
+        ]);
+    });
+
+    it("spreads the replicas across the nodes", async () => {
+        const podSpec = await getPodSpec();
+        const term =
+            podSpec.affinity.podAntiAffinity
+                .preferredDuringSchedulingIgnoredDuringExecution[0]
+                .podAffinityTerm;
+        assert.strictEqual(term.topologyKey, "kubernetes.io/hostname");
+        assert.deepStrictEqual(term.labelSelector.matchLabels, {
+            "app.kubernetes.io/part-of": "botpress",
+            "app.kubernetes.io/instance": "botpress",
+            "app.kubernetes.io/component": "lang-server",
+        });
+    });
+});
+
+describe("LangServer with backups", () => {
+    let program: MockedProgram;
+
+    before(async () => {
+        program = new MockedProgram();
+        await pulumi.runtime.setMocks(program, "botpress", "test");
+
+        new LangServer(
+            {
+                instanceName: "botpress",
+                namespace: pulumi.output("apps"),
+                numReplicas: 1,
+                storageSize: "5Gi",
+                botpressServerVersion: "v12_26_8",
+                backup: {
+                    enabled: true,
+                    schedule: "0 3 * * *",
+                    endpoint: "https://sfo2.digitaloceanspaces.com",
+                    bucket: "backups",
+                    region: "us-east-1",
+                    prefix: "botpress",
+                    retentionDays: 7,
+                    rcloneVersion: "1.57.0",
+                    accessKeyId: pulumi.output("access-key"),
+                    secretAccessKey: pulumi.output("secret-key"),
+                },
+            },
+            { transformations: program.transformations }
+        );
+    });
+
+    async function getCronJob(): Promise<any> {
+        const cronJob = await program.getResource(
+            "kubernetes:batch/v1:CronJob",
+            "botpress-lang-server-backup-cronjob"
+        );
+        return cronJob.inputs;
+    }
+
+    it("backs up the volume on the schedule, one job at a time", async () => {
+        const cronJob = await getCronJob();
+        assert.strictEqual(cronJob.spec.schedule, "0 3 * * *");
+        assert.strictEqual(cronJob.spec.concurrencyPolicy, "Forbid");
+
+        const podSpec = cronJob.spec.jobTemplate.spec.template.spec;
+        const container = podSpec.containers[0];
+        assert.strictEqual(container.image, "rclone/rclone:1.57.0");
+        assert.deepStrictEqual(container.volumeMounts, [
+            { name: "data", mountPath: "/data", readOnly: true },
+        ]);
+        assert.deepStrictEqual(podSpec.volumes, [
+            {
+                name: "data",
+                persistentVolumeClaim: {
+                    claimName: "botpress-lang-server-pvc-rw",
+                },
+            },
+        ]);
+    });
+
+    it("uploads a tarball and deletes the expired ones", async () => {
+        const cronJob = await getCronJob();
+        const container =
+            cronJob.spec.jobTemplate.spec.template.spec.containers[0];
+        const script = container.command[2];
+        const env: Record<string, any> = {};
+        for (const e of container.env) {
+            env[e.name] = e.value ?? e.valueFrom;
+        }
+
+        assert.match(
+            script,
+            /tar czf - -C \/data \. \| rclone rcat "\$REMOTE_DIR\/\$archive"/
+        );
+        assert.match(
+            script,
+            /rclone delete --min-age "\$\{RETENTION_DAYS\}d" "\$REMOTE_DIR"/
+        );
+        assert.strictEqual(env.RETENTION_DAYS, "7");
+        assert.strictEqual(
+            env.REMOTE_DIR,
+            "backup:backups/botpress/botpress/lang-server"
+        );
+        assert.strictEqual(
+            env.RCLONE_CONFIG_BACKUP_ENDPOINT,
+            "https://sfo2.digitaloceanspaces.com"
+        );
+        assert.deepStrictEqual(env.RCLONE_CONFIG_BACKUP_SECRET_ACCESS_KEY, {
+            secretKeyRef: {
+                name: "botpress-lang-server-backup-credentials",
+                key: "secretAccessKey",
+            },
+        });
+    });
+
+    it("keeps the credentials in a Secret", async () => {
+        const secret = await program.getResource(
+            "kubernetes:core/v1:Secret",
+            "botpress-lang-server-backup-credentials"
+        );
+        assert.deepStrictEqual(unwrapSecret(secret.inputs.stringData), {
+            accessKeyId: "access-key",
+            secretAccessKey: "secret-key",
+        });
+    });
+
+    it("runs the jobs on the node of the language server", async () => {
+        const cronJob = await getCronJob();
+        const affinity =
+            cronJob.spec.jobTemplate.spec.template.spec.affinity.podAffinity;
+        assert.deepStrictEqual(
+            affinity.requiredDuringSchedulingIgnoredDuringExecution,
+            [
+                {
+                    labelSelector: {
+                        matchLabels: {
+                            "app.kubernetes.io/part-of": "botpress",
+                            "app.kubernetes.io/instance": "botpress",
+                            "app.kubernetes.io/component": "lang-server",
+                        },
+                    },
+                    topologyKey: "kubernetes.io/hostname",
+                },
+            ]
+        );
+    });
+});
+
+describe("LangServer restored from a backup", () => {
+    let program: MockedProgram;
+
+    before(async () => {
+        program = new MockedProgram();
+        await pulumi.runtime.setMocks(program, "botpress", "test");
+
+        new LangServer(
+            {
+                instanceName: "botpress",
+                namespace: pulumi.output("apps"),
+                numReplicas: 1,
+                storageSize: "5Gi",
+                botpressServerVersion: "v12_26_8",
+                backup: {
+                    enabled: false,
+                    schedule: "0 3 * * *",
+                    endpoint: "https://sfo2.digitaloceanspaces.com",
+                    bucket: "backups",
+                    region: "us-east-1",
+                    prefix: "botpress",
+                    retentionDays: 7,
+                    rcloneVersion: "1.57.0",
+                    restore: {
+                        "lang-server": "lang-server-20211201T030000Z.tar.gz",
+                    },
+                },
+            },
+            { transformations: program.transformations }
+        );
+    });
+
+    it("restores the archive before the language server starts", async () => {
+        const deployment = await program.getResource(
+            "kubernetes:apps/v1:Deployment",
+            "botpress-lang-server"
+        );
+        const podSpec = deployment.inputs.spec.template.spec;
+        const [restore] = podSpec.initContainers;
+        const env: Record<string, string> = {};
+        for (const e of restore.env) {
+            env[e.name] = e.value;
+        }
+
+        assert.strictEqual(restore.name, "restore");
+        assert.strictEqual(env.ARCHIVE, "lang-server-20211201T030000Z.tar.gz");
+        assert.strictEqual(
+            env.REMOTE_DIR,
+            "backup:backups/botpress/botpress/lang-server"
+        );
+        assert.match(restore.command[2], /find \/data -mindepth 1 -delete/);
+        // The old pod releases the volume before the new one restores it.
+        assert.strictEqual(deployment.inputs.spec.strategy.type, "Recreate");
+    });
+
+    it("pins the archive to restore", async () => {
+        const archive = await program.getResource(
+            "pulumi-nodejs:dynamic/botpress:BackupArchive",
+            "botpress-lang-server-backup-archive"
+        );
+        assert.strictEqual(
+            archive.inputs.archive,
+            "lang-server-20211201T030000Z.tar.gz"
+        );
+        assert.strictEqual(
+            archive.inputs.location.prefix,
+            "botpress/botpress/lang-server"
+        );
+    });
+});
+
+describe("LangServer adopting the resources of an older stack", () => {
+    let program: MockedProgram;
+
+    before(async () => {
+        program = new MockedProgram();
+        await pulumi.runtime.setMocks(program, "botpress", "test");
+
+        new LangServer(
+            {
+                instanceName: "botpress",
+                namespace: pulumi.output("apps"),
+                numReplicas: 1,
+                storageSize: "5Gi",
+                botpressServerVersion: "v12_26_8",
+                legacyParent: new pulumi.ComponentResource(
+                    "digitalocean:index/kubernetesCluster:KubernetesCluster",
+                    "botpressCluster"
+                ),
+            },
+            { transformations: program.transformations }
+        );
+    });
+
+    it("keeps the volume with the embeddings", async () => {
+        assert.deepStrictEqual(
+            await program.getAliases(
+                "kubernetes:core/v1:PersistentVolumeClaim",
+                "botpress-lang-server-pvc-rw"
+            ),
+            [
+                {
+                    name: "lang-server-pvc-rw",
+                    parent: "urn:pulumi:test::botpress::digitalocean:index/kubernetesCluster:KubernetesCluster$app-service::lang-server",
+                },
+            ]
+        );
+    });
+});
@@ -0,0 +1,102 @@
+import * as assert from "assert";
+import * as pulumi from "@pulumi/pulumi";
+
+import { Logging, LoggingArgs } from "../logging";
+import { MockedProgram, promiseOf } from "./mocks";
+
+async function createLogging(
+    program: MockedProgram,
+    args: Partial<LoggingArgs>
+): Promise<Logging> {
+    await pulumi.runtime.setMocks(program, "botpress", "test");
+
+    return new Logging("logging", {
+        fluentBitVersion: "0.19.16",
+        sink: "loki",
+        loki: { chartVersion: "2.8.1", storageSize: "10Gi", retention: "168h" },
+        http: {},
+        namespaces: [pulumi.output("apps"), "app-svcs"],
+        ...args,
+    });
+}
+
+describe("Logging", () => {
+    describe("with the Loki sink", () => {
+        const program = new MockedProgram();
+        let logging: Logging;
+
+        before(async () => {
+            logging = await createLogging(program, {});
+        });
+
+        it("tails the logs of the namespaces", async () => {
+            const config = (await program.getChart("fluent-bit")).values.config;
+            assert.match(
+                config.inputs,
+                /Path \/var\/log\/containers\/\*_apps_\*\.log,\/var\/log\/containers\/\*_app-svcs_\*\.log\n/
+            );
+            assert.match(config.filters, /call set_component\n/);
+        });
+
+        it("ships the logs to Loki, labeled with their component", async () => {
+            const output = (await program.getChart("fluent-bit")).values.config
+                .outputs;
+            assert.match(output, /Name loki\n/);
+            assert.match(output, /Host loki\.logging\.svc\.cluster\.local\n/);
+            assert.match(output, /component=\$component/);
+
+            assert.strictEqual(
+                await promiseOf(logging.getLokiUrl()!),
+                "http://loki.logging.svc.cluster.local:3100"
+            );
+            const loki = await program.getChart("loki");
+            assert.strictEqual(loki.values.persistence.size, "10Gi");
+        });
+    });
+
+    describe("with the HTTP sink", () => {
+        const program = new MockedProgram();
+        let logging: Logging;
+
+        before(async () => {
+            logging = await createLogging(program, {
+                sink: "http",
+                http: {
+                    url: "https://logs.example.com/ingest?source=botpress",
+                    authorization: pulumi.secret("Bearer s3cr3t"),
+                },
+            });
+        });
+
+        it("posts the logs as JSON lines", async () => {
+            const output = (await program.getChart("fluent-bit")).values.config
+                .outputs;
+            assert.match(output, /Name http\n/);
+            assert.match(output, /Host logs\.example\.com\n/);
+            assert.match(output, /Port 443\n/);
+            assert.match(output, /URI \/ingest\?source=botpress\n/);
+            assert.match(output, /tls On\n/);
+            assert.match(
+                output,
+                /Header Authorization \$\{HTTP_SINK_AUTHORIZATION\}\n/
+            );
+        });
+
+        it("reads the authorization from a secret", async () => {
+            const env = (await program.getChart("fluent-bit")).values.env;
+            assert.deepStrictEqual(env, [
+                {
+                    name: "HTTP_SINK_AUTHORIZATION",
+                    valueFrom: {
+                        secretKeyRef: {
+                            name: "fluent-bit-http-sink",
+                            key: "authorization",
+                        },
+                    },
+                },
+            ]);
+            assert.strictEqual(logging.getLokiUrl(), undefined);
+            assert.ok(!program.isTemplated("loki"));
+        });
+    });
+});
@@ -0,0 +1,81 @@
+import * as assert from "assert";
+import * as pulumi from "@pulumi/pulumi";
+
+import { NginxIngressController } from "../nginxIngressController";
+import { Monitoring } from "../monitoring";
+import { MockedProgram, promiseOf } from "./mocks";
+
+describe("Monitoring", () => {
+    const program = new MockedProgram();
+    let monitoring: Monitoring;
+
+    before(async () => {
+        await pulumi.runtime.setMocks(program, "botpress", "test");
+
+        const ingressController = new NginxIngressController(
+            "ingress-controller",
+            {
+                version: "4.0.13",
+                metrics: true,
+            }
+        );
+        monitoring = new Monitoring("monitoring", {
+            version: "23.1.6",
+            retention: "7d",
+            storageSize: "10Gi",
+            grafana: { enabled: true, hostname: "grafana.example.com" },
+            ingressController,
+        });
+    });
+
+    it("scrapes the metrics of the ingress controller", async () => {
+        const monitor = await program.getResource(
+            "kubernetes:monitoring.coreos.com/v1:ServiceMonitor",
+            "ingress-nginx-monitor"
+        );
+        assert.deepStrictEqual(monitor.inputs.spec.namespaceSelector, {
+            matchNames: ["app-svcs"],
+        });
+        assert.strictEqual(monitor.inputs.spec.endpoints[0].port, "metrics");
+    });
+
+    it("provisions the dashboards of the ingress traffic and the pods", async () => {
+        const configMap = await program.getResource(
+            "kubernetes:core/v1:ConfigMap",
+            "botpress-dashboards"
+        );
+        assert.deepStrictEqual(configMap.inputs.metadata.labels, {
+            grafana_dashboard: "1",
+        });
+
+        const ingress = JSON.parse(
+            configMap.inputs.data["botpress-ingress.json"]
+        );
+        assert.strictEqual(ingress.uid, "botpress-ingress");
+        for (const panel of ingress.panels) {
+            assert.match(
+                panel.targets[0].expr,
+                /ingress=~"\$ingress"/,
+                panel.title
+            );
+        }
+        assert.ok(configMap.inputs.data["botpress-pods.json"]);
+    });
+
+    it("serves Grafana on its hostname", async () => {
+        assert.strictEqual(
+            await promiseOf(monitoring.getGrafanaUrl()!),
+            "http://grafana.example.com"
+        );
+
+        const ingress = await program.getResource(
+            "kubernetes:networking.k8s.io/v1:Ingress",
+            "grafana-ingress"
+        );
+        const rule = ingress.inputs.spec.rules[0];
+        assert.strictEqual(rule.host, "grafana.example.com");
+        assert.deepStrictEqual(rule.http.paths[0].backend, {
+            service: { name: "grafana", port: { number: 80 } },
+        });
+    });
+});
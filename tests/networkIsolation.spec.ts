@@ -0,0 +1,169 @@
+import * as assert from "assert";
+import * as pulumi from "@pulumi/pulumi";
+
+import { NginxIngressController } from "../nginxIngressController";
+import { LangServer } from "../langServer";
+import { MainServer, MainServerArgs } from "../mainServer";
+import { NetworkIsolation } from "../networkIsolation";
+import { DATABASE_VPC_IP_RANGE, MockedProgram, promiseOf } from "./mocks";
+
+/**
+ * Creates the app services of an instance and isolates them, with the
+ * given args of the main server.
+ */
+async function createInstance(
+    program: MockedProgram,
+    args: Partial<MainServerArgs>
+): Promise<[LangServer, MainServer]> {
+    await pulumi.runtime.setMocks(program, "botpress", "test");
+
+    const serviceArgs = {
+        instanceName: "botpress",
+        namespace: pulumi.output("apps"),
+        numReplicas: 1,
+        storageSize: "1Gi",
+        botpressServerVersion: "v12_26_8",
+    };
+    const ingressController = new NginxIngressController("ingress-controller", {
+        version: "4.0.13",
+    });
+    const langServer = new LangServer(serviceArgs, {});
+    const mainServer = new MainServer(
+        {
+            ...serviceArgs,
+            ingressController,
+            langServerServiceEndpoint: langServer.getServiceEndpoint(),
+            bpfsStorage: "disk",
+            databasePool: { min: 3, max: 10 },
+            ...args,
+        },
+        {}
+    );
+    new NetworkIsolation("botpress-network-isolation", {
+        instanceName: "botpress",
+        namespace: pulumi.output("apps"),
+        ingressController,
+        mainServer,
+        langServer,
+        tls: false,
+        externalEgress: [{ cidr: "0.0.0.0/0", ports: [443] }],
+    });
+    return [langServer, mainServer];
+}
+
+async function getSpec(program: MockedProgram, name: string): Promise<any> {
+    const policy = await program.getResource(
+        "kubernetes:networking.k8s.io/v1:NetworkPolicy",
+        name
+    );
+    assert.strictEqual(policy.inputs.metadata.namespace, "apps");
+    return policy.inputs.spec;
+}
+
+describe("NetworkIsolation", () => {
+    const program = new MockedProgram();
+    let langServer: LangServer;
+    let mainServer: MainServer;
+
+    before(async () => {
+        [langServer, mainServer] = await createInstance(program, {});
+    });
+
+    it("denies all of the traffic of the namespace by default", async () => {
+        const spec = await getSpec(program, "botpress-default-deny");
+        assert.deepStrictEqual(spec, {
+            podSelector: {},
+            policyTypes: ["Ingress", "Egress"],
+        });
+    });
+
+    it("only lets the ingress controller reach the main server", async () => {
+        const spec = await getSpec(
+            program,
+            "botpress-main-server-from-ingress"
+        );
+        assert.deepStrictEqual(
+            spec.podSelector.matchLabels,
+            await promiseOf(mainServer.getPodSelector())
+        );
+        assert.deepStrictEqual(spec.ingress, [
+            {
+                from: [
+                    {
+                        namespaceSelector: {
+                            matchLabels: {
+                                "kubernetes.io/metadata.name": "app-svcs",
+                            },
+                        },
+                    },
+                ],
+                ports: [{ protocol: "TCP", port: 3000 }],
+            },
+        ]);
+    });
+
+    it("only lets the main server reach the language server", async () => {
+        const mainServerLabels = await promiseOf(mainServer.getPodSelector());
+
+        const ingress = await getSpec(
+            program,
+            "botpress-lang-server-from-main-server"
+        );
+        assert.deepStrictEqual(
+            ingress.podSelector.matchLabels,
+            await promiseOf(langServer.getPodSelector())
+        );
+        assert.deepStrictEqual(ingress.ingress[0].from, [
+            { podSelector: { matchLabels: mainServerLabels } },
+        ]);
+
+        const egress = await getSpec(program, "botpress-main-server-egress");
+        assert.deepStrictEqual(
+            egress.egress.map((rule: any) => rule.ports),
+            [[{ protocol: "TCP", port: 3100 }]]
+        );
+    });
+
+    it("allows the external endpoints", async () => {
+        const spec = await getSpec(program, "botpress-allow-external-egress");
+        assert.deepStrictEqual(spec.egress, [
+            {
+                to: [{ ipBlock: { cidr: "0.0.0.0/0" } }],
+                ports: [{ protocol: "TCP", port: 443 }],
+            },
+        ]);
+    });
+});
+
+describe("NetworkIsolation with a managed database", () => {
+    const program = new MockedProgram();
+
+    before(async () => {
+        await createInstance(program, {
+            clusterId: pulumi.output("doks-cluster-id"),
+            bpfsStorage: "database",
+            database: {
+                provider: "managed-do",
+                size: "db-s-1vcpu-1gb",
+                version: "12",
+                nodeCount: 2,
+                region: "sfo2",
+                connectionPoolSize: 10,
+                storageSize: "10Gi",
+            },
+        });
+    });
+
+    it("only lets the server reach the private network of the database", async () => {
+        for (const name of [
+            "botpress-main-server-egress",
+            "botpress-server-migration-egress",
+        ]) {
+            const spec = await getSpec(program, name);
+            const rule = spec.egress[spec.egress.length - 1];
+            assert.deepStrictEqual(rule.to, [
+                { ipBlock: { cidr: DATABASE_VPC_IP_RANGE } },
+            ]);
+        }
+    });
+});
@@ -0,0 +1,34 @@
+import * as assert from "assert";
+
+import { checkVersionChange, parseBotpressVersion, toSemver } from "../upgrade";
+
+describe("upgrade", () => {
+    it("parses the tags of the server image", () => {
+        assert.deepStrictEqual(parseBotpressVersion("v12_26_8"), [12, 26, 8]);
+        assert.deepStrictEqual(parseBotpressVersion("12.26.8"), [12, 26, 8]);
+        assert.strictEqual(parseBotpressVersion("latest"), undefined);
+        assert.strictEqual(toSemver("v12_26_8"), "12.26.8");
+    });
+
+    it("lets the server upgrade", () => {
+        checkVersionChange(undefined, "v12_26_8", false);
+        checkVersionChange("v12_26_8", "v12_26_8", false);
+        checkVersionChange("v12_26_8", "v12_27_0", false);
+        checkVersionChange("v12_26_8", "v13_0_0", false);
+    });
+
+    it("refuses to downgrade the server", () => {
+        assert.throws(
+            () => checkVersionChange("v12_27_0", "v12_26_8", false),
+            /v12_26_8 is older than the deployed v12_27_0.*upgrade\.allowDowngrade/
+        );
+    });
+
+    it("downgrades the server when allowed", () => {
+        checkVersionChange("v12_27_0", "v12_26_8", true);
+    });
+
+    it("lets the tags that aren't versions through", () => {
+        checkVersionChange("v12_27_0", "latest", false);
+    });
+});
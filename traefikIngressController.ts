@@ -0,0 +1,400 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as k8s from "@pulumi/kubernetes";
+
+import { RouteTable } from "./appService";
+import { RouteConfig } from "./config";
+import {
+    IngressController,
+    IngressControllerArgs,
+    RouteTarget,
+} from "./ingressController";
+
+const traefikApiVersion = "traefik.containo.us/v1alpha1";
+
+// The multipliers of the nginx size units of `bodySize`.
+const sizeUnits: Record<string, number> = {
+    "": 1,
+    k: 1024,
+    m: 1024 * 1024,
+    g: 1024 * 1024 * 1024,
+};
+
+/**
+ * TraefikIngressController deploys Traefik using the Helm chart. Like
+ * ingress-nginx, Traefik is exposed by a `Service` of type `LoadBalancer`.
+ *
+ * Each route is an `IngressRoute`, and its settings are applied with
+ * `Middleware` resources:
+ * - the security headers of every response, shared by all of the routes,
+ * - the `Cache-Control` header of the cached routes. Traefik itself doesn't
+ *   cache the responses.
+ * - the max size of the request bodies.
+ *
+ * Traefik proxies websocket upgrades as is, and the routes' timeouts are set
+ * with a `ServersTransport`.
+ * https://doc.traefik.io/traefik/v2.6/routing/providers/kubernetes-crd/
+ */
+export class TraefikIngressController extends IngressController {
+    // The entry points of the chart's HTTP and HTTPS ports.
+    private static readonly HTTP = "web";
+    private static readonly HTTPS = "websecure";
+
+    private chart: k8s.helm.v3.Chart | undefined;
+    private securityHeaders: k8s.apiextensions.CustomResource | undefined;
+
+    constructor(
+        name: string,
+        args: IngressControllerArgs,
+        opts?: pulumi.ComponentResourceOptions
+    ) {
+        super("traefik", name, args, opts);
+
+        this.createNamespace();
+        this.createIngressController();
+        if (args.tls?.enabled) {
+            // Traefik serves the solvers' `Ingress` resources of its class.
+            this.createCertManager(args.tls, "traefik");
+        }
+
+        this.registerOutputs({});
+    }
+
+    /**
+     * Create an `IngressRoute` per route of the table, along with the
+     * `Middleware` resources of its settings.
+     */
+    createRoutes(table: RouteTable, target: RouteTarget): pulumi.Resource[] {
+        const resources: pulumi.Resource[] = [];
+        for (const route of table.routes) {
+            resources.push(...this.createRoute(route, table, target));
+        }
+        return resources;
+    }
+
+    protected getLoadBalancerService(): pulumi.Output<k8s.core.v1.Service> {
+        if (!this.chart) {
+            throw new Error("Ingress controller is not yet initialized.");
+        }
+        return this.findLoadBalancerService(this.chart, {
+            "app.kubernetes.io/name": "traefik",
+        });
+    }
+
+    private getSecurityHeaders(): k8s.apiextensions.CustomResource {
+        if (!this.securityHeaders) {
+            throw new Error("Security headers are not yet initialized.");
+        }
+        return this.securityHeaders;
+    }
+
+    private createRoute(
+        route: RouteConfig,
+        table: RouteTable,
+        target: RouteTarget
+    ): pulumi.Resource[] {
+        const routeName = target.getResourceName(`${route.name}-route`);
+        const host = route.host ?? table.host;
+        const resources: pulumi.Resource[] = [];
+
+        const middlewares: {
+            name: pulumi.Input<string>;
+            namespace?: pulumi.Input<string>;
+        }[] = [
+            {
+                name: this.getSecurityHeaders().metadata.name,
+                namespace: this.getNamespace().metadata.name,
+            },
+        ];
+        const createMiddleware = (name: string, spec: Record<string, any>) => {
+            const middleware = new k8s.apiextensions.CustomResource(
+                target.getResourceName(`${route.name}-${name}`),
+                {
+                    apiVersion: traefikApiVersion,
+                    kind: "Middleware",
+                    metadata: {
+                        name: target.getResourceName(`${route.name}-${name}`),
+                        namespace: target.namespace,
+                        labels: target.labels,
+                    },
+                    spec,
+                },
+                { parent: target.parent, dependsOn: this.chart?.ready }
+            );
+            middlewares.push({ name: middleware.metadata.name });
+            resources.push(middleware);
+        };
+        if (route.cache) {
+            createMiddleware("cache", {
+                headers: {
+                    customResponseHeaders: {
+                        "Cache-Control": `max-age=${route.cache.maxAge}`,
+                    },
+                },
+            });
+        }
+        if (route.bodySize) {
+            createMiddleware("body-size", {
+                buffering: {
+                    maxRequestBodyBytes: toBytes(route.bodySize),
+                },
+            });
+        }
+
+        let serversTransport: pulumi.Output<string> | undefined;
+        if (route.timeouts) {
+            if (route.timeouts.send !== undefined) {
+                pulumi.log.warn(
+                    `Traefik has no send timeout, so the one of the ${route.name} route is ignored.`,
+                    target.parent
+                );
+            }
+            const forwardingTimeouts: Record<string, string> = {};
+            if (route.timeouts.connect !== undefined) {
+                forwardingTimeouts.dialTimeout = `${route.timeouts.connect}s`;
+            }
+            if (route.timeouts.read !== undefined) {
+                forwardingTimeouts.responseHeaderTimeout = `${route.timeouts.read}s`;
+            }
+            const transport = new k8s.apiextensions.CustomResource(
+                target.getResourceName(`${route.name}-transport`),
+                {
+                    apiVersion: traefikApiVersion,
+                    kind: "ServersTransport",
+                    metadata: {
+                        name: target.getResourceName(`${route.name}-transport`),
+                        namespace: target.namespace,
+                        labels: target.labels,
+                    },
+                    spec: { forwardingTimeouts },
+                },
+                { parent: target.parent, dependsOn: this.chart?.ready }
+            );
+            serversTransport = transport.metadata.name;
+            resources.push(transport);
+        }
+
+        let tls: Record<string, pulumi.Input<string>> | undefined;
+        if (table.tlsSecretName && host) {
+            let secretName = table.tlsSecretName;
+            const clusterIssuer = this.getClusterIssuer();
+            if (route.host && route.host !== table.host && clusterIssuer) {
+                // cert-manager only watches `Ingress` resources, so the
+                // certificate of the route's own host is requested here.
+                secretName = `${routeName}-tls`;
+                resources.push(
+                    new k8s.apiextensions.CustomResource(
+                        `${routeName}-certificate`,
+                        {
+                            apiVersion: "cert-manager.io/v1",
+                            kind: "Certificate",
+                            metadata: {
+                                name: secretName,
+                                namespace: target.namespace,
+                                labels: target.labels,
+                            },
+                            spec: {
+                                secretName,
+                                dnsNames: [host],
+                                issuerRef: {
+                                    kind: "ClusterIssuer",
+                                    name: clusterIssuer.metadata.name,
+                                },
+                            },
+                        },
+                        { parent: target.parent }
+                    )
+                );
+            }
+            tls = { secretName };
+        }
+
+        const match = [
+            host ? `Host(\`${host}\`)` : undefined,
+            getPathRule(route),
+        ]
+            .filter((rule) => rule)
+            .join(" && ");
+        resources.push(
+            new k8s.apiextensions.CustomResource(
+                routeName,
+                {
+                    apiVersion: traefikApiVersion,
+                    kind: "IngressRoute",
+                    metadata: {
+                        namespace: target.namespace,
+                        labels: target.labels,
+                    },
+                    spec: {
+                        // With TLS, plain HTTP requests are redirected to
+                        // HTTPS by the HTTP entry point.
+                        entryPoints: [
+                            tls
+                                ? TraefikIngressController.HTTPS
+                                : TraefikIngressController.HTTP,
+                        ],
+                        routes: [
+                            {
+                                kind: "Rule",
+                                match,
+                                middlewares,
+                                services: [
+                                    {
+                                        kind: "Service",
+                                        name: target.serviceName,
+                                        port: table.port,
+                                        serversTransport,
+                                        // The cookie keeps each client
+                                        // talking to the same pod.
+                                        sticky: route.stickySessions
+                                            ? {
+                                                  cookie: {
+                                                      name: table.sessionCookieName,
+                                                      httpOnly: true,
+                                                  },
+                                              }
+                                            : undefined,
+                                    },
+                                ],
+                            },
+                        ],
+                        tls,
+                    },
+                },
+                { parent: target.parent, dependsOn: this.chart?.ready }
+            )
+        );
+        return resources;
+    }
+
+    /**
+     * Deploy Traefik using the Helm chart, along with the `Middleware` of
+     * the security headers.
+     */
+    private createIngressController() {
+        const namespace = this.getNamespace();
+
+        this.ingressClass = new k8s.networking.v1.IngressClass(
+            "defaultIngressClass",
+            {
+                metadata: {
+                    name: "defaultTraefikIngressClass",
+                    namespace: namespace.metadata.name,
+                    annotations: {
+                        "ingressclass.kubernetes.io/is-default-class": "true",
+                    },
+                },
+                spec: {
+                    controller: "traefik.io/ingress-controller",
+                },
+            },
+            { parent: this }
+        );
+
+        this.chart = new k8s.helm.v3.Chart(
+            "traefik",
+            {
+                namespace: namespace.metadata.name,
+                // https://artifacthub.io/packages/helm/traefik/traefik
+                chart: "traefik",
+                version: this.args.version,
+                fetchOpts: {
+                    repo: "https://helm.traefik.io/traefik",
+                },
+                values: {
+                    // The ingress class is created above.
+                    ingressClass: { enabled: false },
+                    providers: {
+                        // The routes refer to the shared `Middleware` of the
+                        // security headers in the controller's namespace.
+                        kubernetesCRD: { allowCrossNamespace: true },
+                        kubernetesIngress: {
+                            publishedService: { enabled: true },
+                        },
+                    },
+                    ports: this.args.tls?.enabled
+                        ? {
+                              [TraefikIngressController.HTTP]: {
+                                  redirectTo: TraefikIngressController.HTTPS,
+                              },
+                          }
+                        : {},
+                    // Log to the container's output, which is picked up by
+                    // the log collector.
+                    logs: {
+                        access: {
+                            enabled: true,
+                            format: this.args.jsonLogs ? "json" : "common",
+                        },
+                    },
+                },
+                transformations: [
+                    (obj: any) => {
+                        // Do transformations on the YAML to set the namespace
+                        if (obj.metadata) {
+                            obj.metadata.namespace =
+                                namespace.metadata.name.apply((n) => n);
+                        }
+                    },
+                    (obj: any, opts: pulumi.CustomResourceOptions) =>
+                        this.waitForLoadBalancer(obj, opts),
+                ],
+            },
+            { parent: this }
+        );
+
+        this.securityHeaders = new k8s.apiextensions.CustomResource(
+            "security-headers",
+            {
+                apiVersion: traefikApiVersion,
+                kind: "Middleware",
+                metadata: {
+                    name: "security-headers",
+                    namespace: namespace.metadata.name,
+                },
+                spec: {
+                    headers: {
+                        // Prevent displaying Botpress in an iframe
+                        // (clickjacking protection).
+                        customFrameOptionsValue: "SAMEORIGIN",
+                        // Prevent browsers from detecting the mimetype if not
+                        // sent by the server.
+                        contentTypeNosniff: true,
+                        // Force enable the XSS filter for the website, in
+                        // case it was disabled manually.
+                        browserXssFilter: true,
+                    },
+                },
+            },
+            {
+                parent: this,
+                // The CRDs are installed by the chart.
+                dependsOn: this.chart.ready,
+            }
+        );
+    }
+}
+
+/**
+ * Returns the Traefik rule matching the path of a route. The regex of an
+ * `ImplementationSpecific` path matches the start of the path, like with
+ * ingress-nginx.
+ * https://doc.traefik.io/traefik/v2.6/routing/routers/#rule
+ */
+function getPathRule(route: RouteConfig): string {
+    switch (route.pathType) {
+        case "Exact":
+            return `Path(\`${route.path}\`)`;
+        case "Prefix":
+            return `PathPrefix(\`${route.path}\`)`;
+        case "ImplementationSpecific":
+            return `PathPrefix(\`/{path:${route.path.replace(/^\//, "")}}\`)`;
+    }
+}
+
+/**
+ * Converts an nginx size, e.g. `10m`, to bytes.
+ */
+function toBytes(size: string): number {
+    const [, value, unit] = /^([0-9]+)([kKmMgG]?)$/.exec(size)!;
+    return Number(value) * sizeUnits[unit.toLowerCase()];
+}
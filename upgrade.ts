@@ -0,0 +1,64 @@
+import * as pulumi from "@pulumi/pulumi";
+
+/**
+ * Parses a tag of the `botpress/server` image, e.g. `v12_26_8`, into its
+ * major, minor and patch numbers. Returns undefined for the tags that
+ * aren't versions, e.g. `latest`.
+ */
+export function parseBotpressVersion(tag: string): number[] | undefined {
+    const match = /^v?(\d+)[._](\d+)[._](\d+)$/.exec(tag);
+    return match ? match.slice(1).map(Number) : undefined;
+}
+
+/**
+ * Returns the semver of a tag of the `botpress/server` image, e.g.
+ * `12.26.8`, which is how `./bp migrate` names the versions.
+ */
+export function toSemver(tag: string): string | undefined {
+    return parseBotpressVersion(tag)?.join(".");
+}
+
+/**
+ * Fails if the target version of the Botpress server is older than the
+ * deployed one, unless downgrades are allowed. The migrations of the server
+ * only go up, so an older server would run on data it doesn't know about.
+ * Tags that aren't versions can't be compared, so they're let through.
+ */
+export function checkVersionChange(
+    deployed: string | undefined,
+    target: string,
+    allowDowngrade: boolean
+) {
+    if (!deployed || allowDowngrade) {
+        return;
+    }
+    const from = parseBotpressVersion(deployed);
+    const to = parseBotpressVersion(target);
+    if (!from || !to) {
+        return;
+    }
+    for (let i = 0; i < from.length; i++) {
+        if (to[i] !== from[i]) {
+            if (to[i] < from[i]) {
+                throw new Error(
+                    `botpressServerVersion: ${target} is older than the deployed ${deployed}. ` +
+                        "The server's migrations only go up; set upgrade.allowDowngrade to deploy it anyway, e.g. after restoring a backup of the older version."
+                );
+            }
+            return;
+        }
+    }
+}
+
+/**
+ * Returns the `botpressServerVersion` output of the last update of the
+ * current stack, or undefined before the first one.
+ */
+export function getDeployedBotpressServerVersion(): pulumi.Output<
+    string | undefined
+> {
+    const stack = new pulumi.StackReference("deployed-stack", {
+        name: `${pulumi.getOrganization()}/${pulumi.getProject()}/${pulumi.getStack()}`,
+    });
+    return stack.getOutput("botpressServerVersion");
+}
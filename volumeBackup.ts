@@ -0,0 +1,252 @@
+import * as pulumi from "@pulumi/pulumi";
+import * as kx from "@pulumi/kubernetesx";
+import * as k8s from "@pulumi/kubernetes";
+
+import { BackupArchive } from "./backupArchive";
+import { BackupConfig } from "./config";
+
+export interface VolumeBackupArgs {
+    namespace: pulumi.Input<string>;
+    instanceName: string;
+    /**
+     * The name of the app service whose volume is backed up.
+     * The archives are stored under `<prefix>/<instanceName>/<serviceName>/`.
+     */
+    serviceName: string;
+    pvc: kx.PersistentVolumeClaim;
+    /**
+     * The labels of the app service's pods. DO volumes are `ReadWriteOnce`,
+     * so the backup pods must run on the same node as the app service.
+     */
+    podLabels: pulumi.Input<Record<string, pulumi.Input<string>>>;
+    /**
+     * The node selector and the tolerations of the app service's pods, so
+     * that the backup pods can run on their nodes.
+     */
+    nodeSelector?: k8s.types.input.core.v1.PodSpec["nodeSelector"];
+    tolerations?: k8s.types.input.core.v1.PodSpec["tolerations"];
+    backup: BackupConfig;
+}
+
+/**
+ * VolumeBackup backs up the PVC of an app service to an S3-compatible
+ * bucket (DO Spaces, MinIO, etc.) on a schedule using a `CronJob`. Each
+ * backup is a tarball of the whole volume, and the archives older than the
+ * retention period are deleted.
+ *
+ * If an archive to restore is configured for the app service, the app
+ * service's pods extract it onto the volume with an init container, see
+ * `getRestoreContainer`.
+ *
+ * The jobs use rclone, which is configured entirely through env vars.
+ * https://rclone.org/s3/
+ */
+export class VolumeBackup extends pulumi.ComponentResource {
+    private name: string;
+    private args: VolumeBackupArgs;
+    private credentials: kx.Secret;
+    private archive: BackupArchive | undefined;
+
+    constructor(
+        name: string,
+        args: VolumeBackupArgs,
+        opts?: pulumi.ComponentResourceOptions
+    ) {
+        super("volume-backup", name, undefined, opts);
+        this.name = name;
+        this.args = args;
+
+        this.credentials = new kx.Secret(
+            `${name}-credentials`,
+            {
+                metadata: { namespace: args.namespace },
+                stringData: {
+                    accessKeyId: pulumi.secret(args.backup.accessKeyId || ""),
+                    secretAccessKey: pulumi.secret(
+                        args.backup.secretAccessKey || ""
+                    ),
+                },
+            },
+            { parent: this }
+        );
+
+        if (args.backup.enabled) {
+            this.createCronJob();
+        }
+        const archive = args.backup.restore?.[args.serviceName];
+        if (archive) {
+            this.archive = new BackupArchive(
+                `${name}-archive`,
+                {
+                    location: {
+                        endpoint: args.backup.endpoint || "",
+                        region: args.backup.region,
+                        bucket: args.backup.bucket || "",
+                        prefix: this.getPrefix(),
+                    },
+                    credentials: pulumi.secret({
+                        accessKeyId: pulumi.output(
+                            args.backup.accessKeyId || ""
+                        ),
+                        secretAccessKey: pulumi.output(
+                            args.backup.secretAccessKey || ""
+                        ),
+                    }),
+                    archive,
+                },
+                { parent: this }
+            );
+        }
+
+        this.registerOutputs({});
+    }
+
+    private createCronJob() {
+        const script = [
+            "set -eu",
+            'archive="$SERVICE-$(date -u +%Y%m%dT%H%M%SZ).tar.gz"',
+            'tar czf - -C /data . | rclone rcat "$REMOTE_DIR/$archive"',
+            'rclone delete --min-age "${RETENTION_DAYS}d" "$REMOTE_DIR"',
+        ].join("\n");
+
+        new k8s.batch.v1.CronJob(
+            `${this.name}-cronjob`,
+            {
+                metadata: { namespace: this.args.namespace },
+                spec: {
+                    schedule: this.args.backup.schedule,
+                    // Never run two backups of the same volume at once.
+                    concurrencyPolicy: "Forbid",
+                    jobTemplate: {
+                        spec: {
+                            backoffLimit: 2,
+                            template: {
+                                spec: this.getPodSpec(script),
+                            },
+                        },
+                    },
+                },
+            },
+            { parent: this }
+        );
+    }
+
+    /**
+     * Returns the init container that restores the archive onto the volume,
+     * if one is configured, which the app service's pods run before the
+     * app. The pods of a volume are recreated rather than rolled over, so
+     * nothing else uses the volume while it's restored.
+     *
+     * The volume is emptied before the archive is extracted, and a marker
+     * keeps the next pods from restoring the same archive again.
+     */
+    getRestoreContainer(): kx.types.Container | undefined {
+        if (!this.archive) {
+            return undefined;
+        }
+        const script = [
+            "set -eu",
+            'marker="/data/.restored"',
+            'if [ "$(cat "$marker" 2>/dev/null)" = "$ARCHIVE" ]; then',
+            '    echo "$ARCHIVE is already restored."',
+            "    exit 0",
+            "fi",
+            'echo "Restoring $ARCHIVE"',
+            "find /data -mindepth 1 -delete",
+            'rclone cat "$REMOTE_DIR/$ARCHIVE" | tar xzf - -C /data',
+            'echo "$ARCHIVE" > "$marker"',
+        ].join("\n");
+        return {
+            name: "restore",
+            image: `rclone/rclone:${this.args.backup.rcloneVersion}`,
+            command: ["/bin/sh", "-c", script],
+            env: [
+                ...this.getRcloneEnv(),
+                { name: "ARCHIVE", value: this.archive.archiveName },
+            ],
+            volumeMounts: [this.args.pvc.mount("/data")],
+        };
+    }
+
+    // The "directory" of the archives of the volume in the bucket.
+    private getPrefix(): string {
+        const backup = this.args.backup;
+        return `${backup.prefix}/${this.args.instanceName}/${this.args.serviceName}`;
+    }
+
+    /**
+     * Returns the env vars that configure rclone's `backup` remote.
+     */
+    private getRcloneEnv(): k8s.types.input.core.v1.EnvVar[] {
+        const backup = this.args.backup;
+        const remote = "RCLONE_CONFIG_BACKUP";
+        return [
+            { name: "SERVICE", value: this.args.serviceName },
+            {
+                name: "REMOTE_DIR",
+                value: `backup:${backup.bucket}/${this.getPrefix()}`,
+            },
+            { name: `${remote}_TYPE`, value: "s3" },
+            { name: `${remote}_PROVIDER`, value: "Other" },
+            { name: `${remote}_ENDPOINT`, value: backup.endpoint },
+            { name: `${remote}_REGION`, value: backup.region },
+            {
+                name: `${remote}_ACCESS_KEY_ID`,
+                valueFrom: this.credentials.asEnvValue("accessKeyId"),
+            },
+            {
+                name: `${remote}_SECRET_ACCESS_KEY`,
+                valueFrom: this.credentials.asEnvValue("secretAccessKey"),
+            },
+        ];
+    }
+
+    private getPodSpec(script: string): k8s.types.input.core.v1.PodSpec {
+        return {
+            restartPolicy: "OnFailure",
+            nodeSelector: this.args.nodeSelector,
+            tolerations: this.args.tolerations,
+            affinity: {
+                podAffinity: {
+                    requiredDuringSchedulingIgnoredDuringExecution: [
+                        {
+                            labelSelector: {
+                                matchLabels: this.args.podLabels,
+                            },
+                            topologyKey: "kubernetes.io/hostname",
+                        },
+                    ],
+                },
+            },
+            containers: [
+                {
+                    name: "rclone",
+                    image: `rclone/rclone:${this.args.backup.rcloneVersion}`,
+                    command: ["/bin/sh", "-c", script],
+                    env: [
+                        ...this.getRcloneEnv(),
+                        {
+                            name: "RETENTION_DAYS",
+                            value: `${this.args.backup.retentionDays}`,
+                        },
+                    ],
+                    volumeMounts: [
+                        {
+                            name: "data",
+                            mountPath: "/data",
+                            readOnly: true,
+                        },
+                    ],
+                },
+            ],
+            volumes: [
+                {
+                    name: "data",
+                    persistentVolumeClaim: {
+                        claimName: this.args.pvc.metadata.name,
+                    },
+                },
+            ],
+        };
+    }
+}